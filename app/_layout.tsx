@@ -4,6 +4,7 @@ import { StatusBar } from 'expo-status-bar';
 import { View, StyleSheet } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { NetworkProvider } from '../src/providers/NetworkProvider';
 import { SolanaProvider } from '../src/providers/SolanaProvider';
 import { AIProvider } from '../src/providers/AIProvider';
 import { CreditsProvider } from '../src/providers/CreditsProvider';
@@ -12,24 +13,27 @@ export default function RootLayout() {
   return (
     <GestureHandlerRootView style={styles.container}>
       <SafeAreaProvider>
-        <SolanaProvider>
-          <CreditsProvider>
-            <AIProvider>
-            <StatusBar style="light" />
-            <Stack
-              screenOptions={{
-                headerShown: false,
-                contentStyle: { backgroundColor: '#0a0a0a' },
-                animation: 'slide_from_right',
-              }}
-            >
-              <Stack.Screen name="index" />
-              <Stack.Screen name="settings" />
-              <Stack.Screen name="history" />
-            </Stack>
-            </AIProvider>
-          </CreditsProvider>
-        </SolanaProvider>
+        <NetworkProvider>
+          <SolanaProvider>
+            <CreditsProvider>
+              <AIProvider>
+                <StatusBar style="light" />
+                <Stack
+                  screenOptions={{
+                    headerShown: false,
+                    contentStyle: { backgroundColor: '#0a0a0a' },
+                    animation: 'slide_from_right',
+                  }}
+                >
+                  <Stack.Screen name="index" />
+                  <Stack.Screen name="settings" />
+                  <Stack.Screen name="history" />
+                  <Stack.Screen name="usage" />
+                </Stack>
+              </AIProvider>
+            </CreditsProvider>
+          </SolanaProvider>
+        </NetworkProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
   );
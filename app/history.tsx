@@ -12,6 +12,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useAI } from '../src/providers/AIProvider';
 import { AI_PROVIDERS } from '../src/services/ai-providers';
+import { sumMessageUsage, formatCost, formatTokens } from '../src/services/usage';
 import { Conversation } from '../src/types';
 import { BottomNav } from '../src/components';
 import { triggerHaptic, HapticStyle } from '../src/utils/haptics';
@@ -30,6 +31,11 @@ export default function HistoryScreen() {
     );
   }, [conversations, searchQuery]);
 
+  const totalUsage = useMemo(
+    () => sumMessageUsage(conversations.flatMap(conv => conv.messages)),
+    [conversations]
+  );
+
   const handleSelectConversation = (id: string) => {
     triggerHaptic();
     selectConversation(id);
@@ -72,6 +78,7 @@ export default function HistoryScreen() {
   const renderConversation = ({ item }: { item: Conversation }) => {
     const provider = AI_PROVIDERS[item.provider];
     const lastMessage = item.messages[item.messages.length - 1];
+    const usage = sumMessageUsage(item.messages);
 
     return (
       <TouchableOpacity
@@ -99,9 +106,16 @@ export default function HistoryScreen() {
           </Text>
         )}
 
-        <Text style={styles.messageCount}>
-          {item.messages.length} message{item.messages.length !== 1 ? 's' : ''}
-        </Text>
+        <View style={styles.cardFooter}>
+          <Text style={styles.messageCount}>
+            {item.messages.length} message{item.messages.length !== 1 ? 's' : ''}
+          </Text>
+          {usage.messages > 0 && (
+            <Text style={styles.usage}>
+              {formatTokens(usage.tokens.input + usage.tokens.output)} tokens • {formatCost(usage.cost)}
+            </Text>
+          )}
+        </View>
       </TouchableOpacity>
     );
   };
@@ -137,6 +151,13 @@ export default function HistoryScreen() {
         </View>
       )}
 
+      {totalUsage.messages > 0 && (
+        <Text style={styles.totalUsage}>
+          All chats: {formatTokens(totalUsage.tokens.input)} in / {formatTokens(totalUsage.tokens.output)} out •{' '}
+          {formatCost(totalUsage.cost)}
+        </Text>
+      )}
+
       {conversations.length === 0 ? (
         <View style={styles.emptyState}>
           <Text style={styles.emptyIcon}>💬</Text>
@@ -271,10 +292,25 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 8,
   },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   messageCount: {
     color: '#666',
     fontSize: 12,
   },
+  usage: {
+    color: '#14F195',
+    fontSize: 12,
+  },
+  totalUsage: {
+    color: '#888',
+    fontSize: 12,
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
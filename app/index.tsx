@@ -23,6 +23,7 @@ import {
 import { useAI } from '../src/providers/AIProvider';
 import { useSolana } from '../src/providers/SolanaProvider';
 import { useCredits } from '../src/providers/CreditsProvider';
+import { useNetwork } from '../src/providers/NetworkProvider';
 import { AI_PROVIDERS } from '../src/services/ai-providers';
 
 export default function ChatScreen() {
@@ -34,12 +35,20 @@ export default function ChatScreen() {
     currentModel,
     currentConversation,
     isLoading,
+    streamingMessageId,
+    toolStatus,
     sendMessage,
+    stopGeneration,
     createNewConversation,
     hasApiKey,
+    usesCredits,
+    estimateCredits,
+    spendingWarning,
+    dismissSpendingWarning,
   } = useAI();
   const { wallet } = useSolana();
-  const { balance: creditsBalance } = useCredits();
+  const { balance: creditsBalance, hasEnoughCredits } = useCredits();
+  const { chain, clusterLabel } = useNetwork();
 
   const [showProviderSelector, setShowProviderSelector] = useState(false);
   const [showWalletSheet, setShowWalletSheet] = useState(false);
@@ -56,11 +65,15 @@ export default function ChatScreen() {
     }
   }, [currentConversation?.messages.length]);
 
-  const handleSend = async (content: string) => {
+  // Resolves false when the message wasn't sent, so the input keeps it
+  const handleSend = async (content: string): Promise<boolean> => {
     try {
-      await sendMessage(content);
+      if (await sendMessage(content)) return true;
+      Alert.alert('Send Cancelled', "Your message wasn't sent because it would go over your spending limit. It's still in the message box.");
+      return false;
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to send message');
+      return false;
     }
   };
 
@@ -70,6 +83,8 @@ export default function ChatScreen() {
   };
 
   const hasKey = hasApiKey(currentProvider);
+  // Without a key, chatting is paid for with credits
+  const canChat = hasKey || (usesCredits(currentProvider) && hasEnoughCredits(currentProvider, currentModel));
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -77,6 +92,13 @@ export default function ChatScreen() {
       <View style={styles.header}>
         <View style={styles.headerLeft}>
           <Text style={styles.headerTitle}>🐿️ Solana AI</Text>
+          <TouchableOpacity
+            style={[styles.clusterBadge, chain !== 'mainnet' && styles.clusterBadgeTest]}
+            onPress={() => router.push('/settings')}
+          >
+            <View style={[styles.clusterDot, chain !== 'mainnet' && styles.clusterDotTest]} />
+            <Text style={styles.clusterText}>{clusterLabel}</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.headerRight}>
@@ -111,7 +133,7 @@ export default function ChatScreen() {
             </TouchableOpacity>
           )}
 
-          {!hasKey && (
+          {!canChat && (
             <View style={styles.accessCard}>
               <Text style={styles.accessTitle}>🔑 Get Started</Text>
               <Text style={styles.accessText}>
@@ -157,8 +179,8 @@ export default function ChatScreen() {
               <TouchableOpacity
                 key={index}
                 style={styles.suggestionChip}
-                onPress={() => hasKey && handleSend(suggestion)}
-                disabled={!hasKey}
+                onPress={() => canChat && handleSend(suggestion)}
+                disabled={!canChat}
               >
                 <Text style={styles.suggestionText}>{suggestion}</Text>
               </TouchableOpacity>
@@ -171,7 +193,19 @@ export default function ChatScreen() {
           ref={flatListRef}
           data={currentConversation.messages}
           keyExtractor={(item) => item.id}
-          renderItem={({ item }) => <ChatMessage message={item} />}
+          renderItem={({ item }) => (
+            <ChatMessage
+              message={item}
+              isStreaming={item.id === streamingMessageId}
+              status={item.id === streamingMessageId ? toolStatus : null}
+            />
+          )}
+          onContentSizeChange={() => {
+            // Keep the growing reply in view while it streams
+            if (streamingMessageId) {
+              flatListRef.current?.scrollToEnd({ animated: false });
+            }
+          }}
           contentContainerStyle={styles.messagesList}
           showsVerticalScrollIndicator={false}
           ListHeaderComponent={
@@ -184,6 +218,12 @@ export default function ChatScreen() {
 
       {/* Model Selector + Input */}
       <View style={styles.inputArea}>
+        {spendingWarning && (
+          <TouchableOpacity style={styles.spendingWarning} onPress={dismissSpendingWarning}>
+            <Text style={styles.spendingWarningText}>⚠️ {spendingWarning}</Text>
+            <Text style={styles.spendingWarningDismiss}>×</Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={[styles.modelSelector, { borderColor: provider.color }]}
           onPress={() => setShowProviderSelector(true)}
@@ -194,7 +234,13 @@ export default function ChatScreen() {
           </Text>
           <Text style={styles.modelSelectorChevron}>▼</Text>
         </TouchableOpacity>
-        <ChatInput onSend={handleSend} isLoading={isLoading} disabled={!hasKey} />
+        <ChatInput
+          onSend={handleSend}
+          onStop={stopGeneration}
+          isLoading={isLoading}
+          disabled={!canChat}
+          estimateCredits={estimateCredits}
+        />
       </View>
 
       {/* Modals */}
@@ -239,6 +285,33 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#fff',
   },
+  clusterBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: 'rgba(20, 241, 149, 0.1)',
+  },
+  clusterBadgeTest: {
+    backgroundColor: 'rgba(153, 69, 255, 0.15)',
+  },
+  clusterDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#14F195',
+    marginRight: 5,
+  },
+  clusterDotTest: {
+    backgroundColor: '#9945FF',
+  },
+  clusterText: {
+    color: '#aaa',
+    fontSize: 11,
+    fontWeight: '600',
+  },
   headerRight: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -247,6 +320,28 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#1a1a2e',
   },
+  spendingWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#ff6b6b22',
+    borderWidth: 1,
+    borderColor: '#ff6b6b',
+  },
+  spendingWarningText: {
+    flex: 1,
+    color: '#ff6b6b',
+    fontSize: 13,
+  },
+  spendingWarningDismiss: {
+    color: '#ff6b6b',
+    fontSize: 18,
+    marginLeft: 8,
+  },
   modelSelector: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -14,19 +14,67 @@ import { useRouter } from 'expo-router';
 import { useAI } from '../src/providers/AIProvider';
 import { useCredits } from '../src/providers/CreditsProvider';
 import { useSolana } from '../src/providers/SolanaProvider';
+import { useNetwork } from '../src/providers/NetworkProvider';
 import { AI_PROVIDERS } from '../src/services/ai-providers';
-import { AIProvider } from '../src/types';
+import { CLUSTER_OPTIONS, isValidEndpoint } from '../src/services/solana-network';
+import { TRANSACTION_LABELS } from '../src/services/credit-usage';
+import { AIProvider, PublicCluster, SolanaCluster } from '../src/types';
 import { BuyCreditsSheet, BottomNav } from '../src/components';
-import { triggerHaptic } from '../src/utils/haptics';
+import { triggerHaptic, triggerSelection } from '../src/utils/haptics';
+
+const PUBLIC_CLUSTERS: PublicCluster[] = ['mainnet', 'devnet', 'testnet'];
+
+// One "Name: value" header per line
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name && value) headers[name] = value;
+  }
+  return headers;
+};
+
+const formatHeaders = (headers?: Record<string, string>): string =>
+  Object.entries(headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+
+// An empty field means no limit; anything else must be a positive number (NaN flags it invalid)
+const parseLimit = (text: string): number | undefined => {
+  if (!text.trim()) return undefined;
+  const value = Number(text);
+  return value > 0 ? value : NaN;
+};
+
+const formatLimit = (value?: number): string => (value === undefined ? '' : value.toString());
 
 export default function SettingsScreen() {
   const router = useRouter();
   const { settings, updateApiKey, updateSettings } = useAI();
-  const { balance: creditsBalance, transactions } = useCredits();
+  const { balance: creditsBalance, transactions, isLoading: creditsLoading, restorePurchases, awaitingReceipt } = useCredits();
   const { wallet } = useSolana();
+  const { network, endpoint, updateNetwork } = useNetwork();
 
   const [showBuyCreditsSheet, setShowBuyCreditsSheet] = useState(false);
 
+  const handleRestorePurchases = async () => {
+    triggerHaptic();
+    try {
+      const restored = await restorePurchases();
+      Alert.alert(
+        'Purchases Restored',
+        restored > 0
+          ? `Recovered ${restored} purchase${restored === 1 ? '' : 's'} from your wallet history.`
+          : 'Your credits already match your purchase history.'
+      );
+    } catch (error: any) {
+      Alert.alert('Restore Failed', error.message || 'Could not restore purchases');
+    }
+  };
+
   const [apiKeys, setApiKeys] = useState({
     claude: settings.apiKeys.claude || '',
     openai: settings.apiKeys.openai || '',
@@ -36,12 +84,69 @@ export default function SettingsScreen() {
 
   const [showKey, setShowKey] = useState<Record<string, boolean>>({});
 
+  const [customUrl, setCustomUrl] = useState(network.customUrl || '');
+  const [customHeaders, setCustomHeaders] = useState(formatHeaders(network.customHeaders));
+  const [customChain, setCustomChain] = useState<PublicCluster>(network.customChain || 'mainnet');
+  const [editingCustom, setEditingCustom] = useState(network.cluster === 'custom');
+
+  const limits = settings.spendingLimits;
+  const [limitInputs, setLimitInputs] = useState({
+    dailyCredits: formatLimit(limits.dailyCredits),
+    conversationCredits: formatLimit(limits.conversationCredits),
+    dailyUsd: formatLimit(limits.dailyUsd),
+    conversationUsd: formatLimit(limits.conversationUsd),
+    warnAt: Math.round(limits.warnAt * 100).toString(),
+  });
+
   const handleSaveKey = async (provider: AIProvider) => {
     triggerHaptic();
     await updateApiKey(provider, apiKeys[provider]);
     Alert.alert('Saved', `${AI_PROVIDERS[provider].name} API key saved securely`);
   };
 
+  const handleSelectCluster = async (cluster: SolanaCluster) => {
+    triggerSelection();
+    if (cluster === 'custom') {
+      // A custom profile only takes effect once it has a valid URL
+      setEditingCustom(true);
+      return;
+    }
+    setEditingCustom(false);
+    await updateNetwork({ ...network, cluster });
+  };
+
+  const handleSaveCustomNetwork = async () => {
+    if (!isValidEndpoint(customUrl)) {
+      Alert.alert('Invalid URL', 'Enter an http(s) RPC endpoint URL');
+      return;
+    }
+    triggerHaptic();
+    await updateNetwork({
+      cluster: 'custom',
+      customUrl: customUrl.trim(),
+      customHeaders: parseHeaders(customHeaders),
+      customChain,
+    });
+    Alert.alert('Saved', 'Custom RPC endpoint saved');
+  };
+
+  const handleSaveLimits = async () => {
+    const parsed = {
+      dailyCredits: parseLimit(limitInputs.dailyCredits),
+      conversationCredits: parseLimit(limitInputs.conversationCredits),
+      dailyUsd: parseLimit(limitInputs.dailyUsd),
+      conversationUsd: parseLimit(limitInputs.conversationUsd),
+    };
+    const warnPercent = Number(limitInputs.warnAt);
+    if (Object.values(parsed).some(value => Number.isNaN(value)) || !(warnPercent > 0 && warnPercent <= 100)) {
+      Alert.alert('Invalid Limits', 'Limits must be positive numbers, and the warning between 1 and 100%');
+      return;
+    }
+    triggerHaptic();
+    await updateSettings({ spendingLimits: { ...limits, ...parsed, warnAt: warnPercent / 100 } });
+    Alert.alert('Saved', 'Spending limits saved');
+  };
+
   const toggleShowKey = (provider: string) => {
     setShowKey(prev => ({ ...prev, [provider]: !prev[provider] }));
   };
@@ -103,6 +208,18 @@ export default function SettingsScreen() {
               </Text>
             </TouchableOpacity>
 
+            {wallet.connected && (
+              <TouchableOpacity
+                style={styles.restoreButton}
+                onPress={handleRestorePurchases}
+                disabled={creditsLoading}
+              >
+                <Text style={styles.restoreButtonText}>
+                  {creditsLoading ? 'Restoring...' : 'Restore Purchases'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
             {wallet.connected && (
               <Text style={styles.walletConnected}>
                 Wallet: {wallet.publicKey?.slice(0, 6)}...{wallet.publicKey?.slice(-4)} • {wallet.balance.toFixed(4)} SOL
@@ -112,15 +229,28 @@ export default function SettingsScreen() {
 
           {transactions.length > 0 && (
             <View style={styles.recentTransactions}>
-              <Text style={styles.recentTitle}>Recent Activity</Text>
+              <View style={styles.recentHeader}>
+                <Text style={styles.recentTitle}>Recent Activity</Text>
+                <TouchableOpacity
+                  onPress={() => {
+                    triggerHaptic();
+                    router.push('/usage');
+                  }}
+                >
+                  <Text style={styles.seeAllText}>See all</Text>
+                </TouchableOpacity>
+              </View>
               {transactions.slice(0, 3).map((tx) => (
                 <View key={tx.id} style={styles.transactionRow}>
                   <Text style={styles.transactionType}>
-                    {tx.type === 'purchase' ? '➕' : '➖'}{' '}
-                    {tx.type === 'purchase' ? 'Purchased' : 'Used'}
+                    {tx.type === 'usage' ? '➖' : '➕'}{' '}
+                    {TRANSACTION_LABELS[tx.type]}
+                    {tx.status === 'pending' && (tx.signature ? ' • Confirming' : ' • Awaiting payment')}
+                    {tx.status === 'failed' && ' • Failed'}
+                    {awaitingReceipt(tx) && ' • Awaiting receipt'}
                   </Text>
                   <Text style={styles.transactionCredits}>
-                    {tx.type === 'purchase' ? '+' : ''}{tx.credits} credits
+                    {tx.credits > 0 ? '+' : ''}{tx.credits} credits
                   </Text>
                 </View>
               ))}
@@ -181,6 +311,161 @@ export default function SettingsScreen() {
           ))}
         </View>
 
+        {/* Network Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Network</Text>
+          <Text style={styles.sectionDescription}>
+            Cluster used by your wallet, balances and the AI's blockchain tools
+          </Text>
+
+          {CLUSTER_OPTIONS.map((option) => {
+            const selected = editingCustom ? option.id === 'custom' : network.cluster === option.id;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.clusterRow, selected && styles.clusterRowSelected]}
+                onPress={() => handleSelectCluster(option.id)}
+              >
+                <View style={[styles.radio, selected && styles.radioSelected]} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.preferenceName}>{option.name}</Text>
+                  <Text style={styles.preferenceDescription}>{option.endpoint || option.description}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+
+          {network.cluster === 'localnet' && !editingCustom && (
+            <Text style={styles.localnetNote}>
+              Wallets have no localnet, so yours connects as devnet and can't send transactions or buy credits here.
+            </Text>
+          )}
+
+          {editingCustom && (
+            <View style={styles.apiKeyCard}>
+              <Text style={styles.inputLabel}>RPC URL</Text>
+              <TextInput
+                style={[styles.input, styles.networkInput]}
+                placeholder="https://your-rpc-provider.com/..."
+                placeholderTextColor="#666"
+                value={customUrl}
+                onChangeText={setCustomUrl}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+
+              <Text style={styles.inputLabel}>Headers (optional, one per line)</Text>
+              <TextInput
+                style={[styles.input, styles.networkInput, styles.headersInput]}
+                placeholder="x-api-key: ..."
+                placeholderTextColor="#666"
+                value={customHeaders}
+                onChangeText={setCustomHeaders}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+
+              <Text style={styles.inputLabel}>Chain</Text>
+              <View style={styles.chainRow}>
+                {PUBLIC_CLUSTERS.map((chain) => (
+                  <TouchableOpacity
+                    key={chain}
+                    style={[styles.chainChip, customChain === chain && styles.chainChipSelected]}
+                    onPress={() => setCustomChain(chain)}
+                  >
+                    <Text style={[styles.chainChipText, customChain === chain && styles.chainChipTextSelected]}>
+                      {chain}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: '#9945FF' }]}
+                onPress={handleSaveCustomNetwork}
+              >
+                <Text style={styles.saveButtonText}>Save Endpoint</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <Text style={styles.endpointText}>Active endpoint: {endpoint}</Text>
+        </View>
+
+        {/* Spending Limits Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Spending Limits</Text>
+          <Text style={styles.sectionDescription}>
+            Pause before a chat goes over budget. Credit limits apply when paying with credits; USD
+            limits apply to your own API keys, estimated from model pricing. Leave a field empty for no limit.
+          </Text>
+
+          <View style={styles.preferenceRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.preferenceName}>Enforce Limits</Text>
+              <Text style={styles.preferenceDescription}>
+                Warn near a limit and ask before going over
+              </Text>
+            </View>
+            <Switch
+              value={limits.enabled}
+              onValueChange={(value) => updateSettings({ spendingLimits: { ...limits, enabled: value } })}
+              trackColor={{ false: '#2a2a4e', true: '#9945FF' }}
+              thumbColor="#fff"
+            />
+          </View>
+
+          {limits.enabled && (
+            <View style={styles.apiKeyCard}>
+              {([
+                ['Daily', 'dailyCredits', 'dailyUsd'],
+                ['Per conversation', 'conversationCredits', 'conversationUsd'],
+              ] as const).map(([label, creditsField, usdField]) => (
+                <View key={label}>
+                  <Text style={styles.inputLabel}>{label}</Text>
+                  <View style={styles.inputRow}>
+                    <TextInput
+                      style={[styles.input, styles.limitInput]}
+                      placeholder="Credits"
+                      placeholderTextColor="#666"
+                      value={limitInputs[creditsField]}
+                      onChangeText={(text) => setLimitInputs(prev => ({ ...prev, [creditsField]: text }))}
+                      keyboardType="decimal-pad"
+                    />
+                    <TextInput
+                      style={styles.input}
+                      placeholder="USD"
+                      placeholderTextColor="#666"
+                      value={limitInputs[usdField]}
+                      onChangeText={(text) => setLimitInputs(prev => ({ ...prev, [usdField]: text }))}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+              ))}
+
+              <Text style={styles.inputLabel}>Warn at (% of a limit)</Text>
+              <TextInput
+                style={[styles.input, styles.networkInput]}
+                placeholder="80"
+                placeholderTextColor="#666"
+                value={limitInputs.warnAt}
+                onChangeText={(text) => setLimitInputs(prev => ({ ...prev, warnAt: text }))}
+                keyboardType="number-pad"
+              />
+
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: '#9945FF' }]}
+                onPress={handleSaveLimits}
+              >
+                <Text style={styles.saveButtonText}>Save Limits</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
         {/* Preferences Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Preferences</Text>
@@ -357,6 +642,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  restoreButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#2a2a4e',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  restoreButtonText: {
+    color: '#9945FF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   walletConnected: {
     color: '#666',
     fontSize: 12,
@@ -368,13 +666,23 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     padding: 16,
   },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
   recentTitle: {
     color: '#888',
     fontSize: 12,
     fontWeight: '600',
-    marginBottom: 12,
     textTransform: 'uppercase',
   },
+  seeAllText: {
+    color: '#9945FF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   transactionRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -449,6 +757,85 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  clusterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a2e',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  clusterRowSelected: {
+    borderColor: '#9945FF',
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: '#2a2a4e',
+    marginRight: 12,
+  },
+  radioSelected: {
+    borderColor: '#9945FF',
+    backgroundColor: '#9945FF',
+  },
+  inputLabel: {
+    color: '#888',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  limitInput: {
+    marginRight: 8,
+  },
+  networkInput: {
+    flex: 0,
+    marginBottom: 12,
+  },
+  localnetNote: {
+    color: '#ff6b6b',
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  headersInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+  },
+  chainRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chainChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#0a0a0a',
+    borderWidth: 1,
+    borderColor: '#2a2a4e',
+  },
+  chainChipSelected: {
+    borderColor: '#9945FF',
+    backgroundColor: 'rgba(153, 69, 255, 0.15)',
+  },
+  chainChipText: {
+    color: '#888',
+    fontSize: 13,
+  },
+  chainChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  endpointText: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 4,
+  },
   preferenceRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,478 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  Alert,
+  Linking,
+  Platform,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Clipboard from 'expo-clipboard';
+import { useAI } from '../src/providers/AIProvider';
+import { useCredits } from '../src/providers/CreditsProvider';
+import { AI_PROVIDERS } from '../src/services/ai-providers';
+import {
+  TRANSACTION_LABELS,
+  dailySpend,
+  filterTransactions,
+  getExplorerTxUrl,
+  isCreditIn,
+  spendByConversation,
+  toCSV,
+  toJSON,
+  totalSpent,
+} from '../src/services/credit-usage';
+import { recomputeBalance } from '../src/services/credit-ledger';
+import { formatTokens } from '../src/services/usage';
+import { AIProvider, CreditTransaction } from '../src/types';
+import { BottomNav } from '../src/components';
+import { triggerHaptic, triggerSelection } from '../src/utils/haptics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'All', days: null },
+] as const;
+
+// Days charted when showing all time
+const ALL_TIME_CHART_DAYS = 30;
+const CHART_HEIGHT = 96;
+const TOP_CONVERSATIONS = 5;
+
+const PROVIDERS = Object.keys(AI_PROVIDERS) as AIProvider[];
+
+export default function UsageScreen() {
+  const { conversations } = useAI();
+  const { balance, transactions, awaitingReceipt, countsCredit } = useCredits();
+
+  const [rangeDays, setRangeDays] = useState<number | null>(30);
+  const [provider, setProvider] = useState<AIProvider | undefined>();
+  const [model, setModel] = useState<string | undefined>();
+
+  const filtered = useMemo(
+    () => filterTransactions(transactions, {
+      provider,
+      model,
+      since: rangeDays === null ? undefined : Date.now() - rangeDays * DAY_MS,
+    }),
+    [transactions, provider, model, rangeDays]
+  );
+
+  const spent = useMemo(() => totalSpent(filtered), [filtered]);
+  // Only purchases and grants the balance counts: not unpaid, failed or unreceipted purchases,
+  // vouchers that don't verify, or a voucher redeemed twice. The balance changes whenever what
+  // counts does (a receipt key arriving), so it recomputes with it.
+  const added = useMemo(() => recomputeBalance(filtered, countsCredit).total, [filtered, balance]);
+  const days = useMemo(() => dailySpend(filtered, rangeDays ?? ALL_TIME_CHART_DAYS), [filtered, rangeDays]);
+  const maxDaily = Math.max(1, ...days.map(d => d.credits));
+  const byConversation = useMemo(() => spendByConversation(filtered).slice(0, TOP_CONVERSATIONS), [filtered]);
+
+  const conversationTitle = (id: string) =>
+    conversations.find(c => c.id === id)?.title ?? 'Deleted conversation';
+
+  const selectProvider = (next: AIProvider | undefined) => {
+    triggerSelection();
+    setProvider(next);
+    setModel(undefined);
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    triggerHaptic();
+    const content = format === 'csv' ? toCSV(filtered) : toJSON(filtered);
+    const title = `credit-usage.${format}`;
+
+    // The web share sheet can't take text files, so copy instead
+    if (Platform.OS === 'web') {
+      await Clipboard.setStringAsync(content);
+      Alert.alert('Copied', `${format.toUpperCase()} export copied to clipboard`);
+      return;
+    }
+    try {
+      await Share.share({ title, message: content });
+    } catch (error: any) {
+      Alert.alert('Export Failed', error.message || 'Could not share the export');
+    }
+  };
+
+  const openExplorer = (signature: string) => {
+    triggerHaptic();
+    Linking.openURL(getExplorerTxUrl(signature));
+  };
+
+  const renderTransaction = ({ item }: { item: CreditTransaction }) => (
+    <View style={styles.transactionRow}>
+      <View style={styles.transactionInfo}>
+        <Text style={styles.transactionType}>
+          {TRANSACTION_LABELS[item.type]}
+          {item.status === 'pending' && (item.signature ? ' • Confirming' : ' • Awaiting payment')}
+          {item.status === 'failed' && ' • Failed'}
+          {awaitingReceipt(item) && ' • Awaiting receipt'}
+          {isCreditIn(item) && item.status !== 'pending' && item.status !== 'failed' && !awaitingReceipt(item) &&
+            !countsCredit(item) && ' • Not counted'}
+        </Text>
+        <Text style={styles.transactionMeta} numberOfLines={1}>
+          {new Date(item.timestamp).toLocaleString()}
+          {item.type === 'purchase'
+            ? ` • ${item.amount} ${item.token}`
+            : item.type === 'grant' ? ' • Voucher'
+            : item.model ? ` • ${item.model}` : ''}
+          {item.tokens ? ` • ${formatTokens(item.tokens.input + item.tokens.output)} tokens` : ''}
+        </Text>
+        {item.type === 'purchase' && item.signature && (
+          <TouchableOpacity onPress={() => openExplorer(item.signature!)}>
+            <Text style={styles.explorerLink}>
+              {item.signature.slice(0, 8)}...{item.signature.slice(-8)} ↗
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={[styles.transactionCredits, item.credits > 0 && styles.creditsPositive]}>
+        {item.credits > 0 ? '+' : ''}{item.credits}
+      </Text>
+    </View>
+  );
+
+  const header = (
+    <View>
+      {/* Summary */}
+      <View style={styles.summaryCard}>
+        <View style={styles.summaryStat}>
+          <Text style={styles.summaryLabel}>Available</Text>
+          <Text style={styles.summaryValue}>{balance.remaining.toLocaleString()}</Text>
+        </View>
+        <View style={styles.summaryStat}>
+          <Text style={styles.summaryLabel}>Spent</Text>
+          <Text style={styles.summaryValue}>{spent.toLocaleString()}</Text>
+        </View>
+        <View style={styles.summaryStat}>
+          <Text style={styles.summaryLabel}>Added</Text>
+          <Text style={styles.summaryValue}>{added.toLocaleString()}</Text>
+        </View>
+      </View>
+
+      {/* Filters */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {RANGES.map(range => (
+          <TouchableOpacity
+            key={range.label}
+            style={[styles.chip, rangeDays === range.days && styles.chipActive]}
+            onPress={() => {
+              triggerSelection();
+              setRangeDays(range.days);
+            }}
+          >
+            <Text style={[styles.chipText, rangeDays === range.days && styles.chipTextActive]}>{range.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        <TouchableOpacity style={[styles.chip, !provider && styles.chipActive]} onPress={() => selectProvider(undefined)}>
+          <Text style={[styles.chipText, !provider && styles.chipTextActive]}>All providers</Text>
+        </TouchableOpacity>
+        {PROVIDERS.map(id => (
+          <TouchableOpacity
+            key={id}
+            style={[styles.chip, provider === id && styles.chipActive]}
+            onPress={() => selectProvider(id)}
+          >
+            <Text style={[styles.chipText, provider === id && styles.chipTextActive]}>
+              {AI_PROVIDERS[id].icon} {AI_PROVIDERS[id].name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {provider && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          <TouchableOpacity
+            style={[styles.chip, !model && styles.chipActive]}
+            onPress={() => {
+              triggerSelection();
+              setModel(undefined);
+            }}
+          >
+            <Text style={[styles.chipText, !model && styles.chipTextActive]}>All models</Text>
+          </TouchableOpacity>
+          {AI_PROVIDERS[provider].models.map(m => (
+            <TouchableOpacity
+              key={m.id}
+              style={[styles.chip, model === m.id && styles.chipActive]}
+              onPress={() => {
+                triggerSelection();
+                setModel(m.id);
+              }}
+            >
+              <Text style={[styles.chipText, model === m.id && styles.chipTextActive]}>{m.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {/* Daily spend */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Daily Spend</Text>
+        <View style={styles.chart}>
+          {days.map(day => (
+            <View key={day.day} style={styles.barSlot}>
+              <View
+                style={[
+                  styles.bar,
+                  { height: Math.max(day.credits > 0 ? 2 : 0, (day.credits / maxDaily) * CHART_HEIGHT) },
+                ]}
+              />
+            </View>
+          ))}
+        </View>
+        <View style={styles.chartAxis}>
+          <Text style={styles.axisLabel}>{days[0]?.day}</Text>
+          <Text style={styles.axisLabel}>Peak {maxDaily.toLocaleString()} credits</Text>
+          <Text style={styles.axisLabel}>{days[days.length - 1]?.day}</Text>
+        </View>
+      </View>
+
+      {/* Per conversation */}
+      {byConversation.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Top Conversations</Text>
+          {byConversation.map(spend => (
+            <View key={spend.conversationId} style={styles.conversationRow}>
+              <View style={styles.transactionInfo}>
+                <Text style={styles.transactionType} numberOfLines={1}>
+                  {conversationTitle(spend.conversationId)}
+                </Text>
+                <Text style={styles.transactionMeta}>
+                  {spend.requests} request{spend.requests === 1 ? '' : 's'}
+                  {spend.tokens ? ` • ${formatTokens(spend.tokens.input + spend.tokens.output)} tokens` : ''}
+                </Text>
+              </View>
+              <Text style={styles.transactionCredits}>{spend.credits.toLocaleString()}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Text style={styles.ledgerTitle}>Ledger</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Usage</Text>
+        <View style={styles.exportButtons}>
+          <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('csv')}>
+            <Text style={styles.exportButtonText}>CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('json')}>
+            <Text style={styles.exportButtonText}>JSON</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <FlatList
+        data={filtered}
+        keyExtractor={(item) => item.id}
+        renderItem={renderTransaction}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No credit activity matches these filters</Text>
+        }
+        contentContainerStyle={styles.list}
+        showsVerticalScrollIndicator={false}
+      />
+
+      <BottomNav />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+  },
+  headerTitle: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  exportButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exportButton: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#2a2a4e',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  exportButtonText: {
+    color: '#9945FF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  list: {
+    padding: 16,
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a4e',
+  },
+  summaryStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    color: '#666',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  summaryValue: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  chips: {
+    gap: 8,
+    paddingTop: 12,
+  },
+  chip: {
+    backgroundColor: '#1a1a2e',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a4e',
+  },
+  chipActive: {
+    borderColor: '#9945FF',
+    backgroundColor: '#9945FF22',
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 16,
+  },
+  cardTitle: {
+    color: '#888',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 12,
+    textTransform: 'uppercase',
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  bar: {
+    width: '100%',
+    maxWidth: 16,
+    backgroundColor: '#14F195',
+    borderRadius: 2,
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  axisLabel: {
+    color: '#666',
+    fontSize: 11,
+  },
+  conversationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a4e',
+  },
+  ledgerTitle: {
+    color: '#888',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 24,
+    marginBottom: 4,
+    textTransform: 'uppercase',
+  },
+  transactionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+  },
+  transactionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  transactionType: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  transactionMeta: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  explorerLink: {
+    color: '#9945FF',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  transactionCredits: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  creditsPositive: {
+    color: '#14F195',
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
@@ -0,0 +1,56 @@
+// Issues a credit voucher signed with the issuer keypair, printing the code to hand out.
+//
+//   VOUCHER_KEYPAIR=~/treasury.json npm run voucher -- --credits 500 [--days 30] [--wallet <address>]
+//
+// VOUCHER_KEYPAIR is a Solana CLI keypair file whose public key is the relay's
+// RELAY_VOUCHER_ISSUER and the app's EXPO_PUBLIC_VOUCHER_ISSUER.
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import { parseArgs } from 'node:util';
+
+// DER prefix that turns a 32-byte ed25519 seed into a PKCS#8 private key
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Must match voucherMessage in src/services/vouchers.ts and relay/server.mjs
+const voucherMessage = ({ version, id, credits, expiresAt, wallet }) =>
+  JSON.stringify({ version, id, credits, expiresAt, wallet: wallet ?? null });
+
+const { values } = parseArgs({
+  options: {
+    credits: { type: 'string' },
+    days: { type: 'string', default: '30' },
+    wallet: { type: 'string' },
+  },
+});
+
+const credits = Number(values.credits);
+const days = Number(values.days);
+if (!Number.isInteger(credits) || credits <= 0 || !(days > 0)) {
+  console.error('Usage: npm run voucher -- --credits <n> [--days <n>] [--wallet <address>]');
+  process.exit(1);
+}
+if (!process.env.VOUCHER_KEYPAIR) {
+  console.error('Set VOUCHER_KEYPAIR to the issuer keypair file');
+  process.exit(1);
+}
+
+// Solana keypair files hold the 32-byte seed followed by the public key
+const keypair = JSON.parse(fs.readFileSync(process.env.VOUCHER_KEYPAIR, 'utf8'));
+const privateKey = crypto.createPrivateKey({
+  key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(keypair.slice(0, 32))]),
+  format: 'der',
+  type: 'pkcs8',
+});
+
+const payload = {
+  version: 1,
+  id: crypto.randomUUID(),
+  credits,
+  expiresAt: Date.now() + days * DAY_MS,
+  ...(values.wallet && { wallet: values.wallet }),
+};
+const signature = crypto.sign(null, Buffer.from(voucherMessage(payload)), privateKey).toString('base64');
+
+console.log(Buffer.from(JSON.stringify({ payload, signature })).toString('base64url'));
@@ -0,0 +1,723 @@
+// Credits relay: lets credit-paying users chat without their own provider API keys.
+//
+// Each provider's API is served under /<provider> with the same paths, so the app only swaps
+// the origin. Requests authenticate with a session the user's wallet signed, passed wherever the
+// provider expects its API key. The relay checks the wallet's credit balance, forwards the request
+// with the server's key, reads token usage from the response and charges the wallet.
+//
+// Run locally with `npm run relay`. Configuration comes from the environment:
+//   PORT                   Port to listen on (default 8787)
+//   CLAUDE_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY, DOUBAO_API_KEY
+//   RELAY_DATA_FILE        JSON file holding balances and purchases (default relay/relay-data.json)
+//   RELAY_RPC_URL          Solana RPC used to verify purchases (default mainnet-beta)
+//   RELAY_TREASURY_WALLET  Wallet that receives credit payments
+//   RELAY_PURP_MINT        PURP token mint
+//   RELAY_RECEIPT_KEY      Base64 32-byte ed25519 seed for signing purchase receipts (generated and
+//                          stored in the data file if unset); the app pins the matching public key
+//   RELAY_VOUCHER_ISSUER   Public key that signs credit vouchers (default the treasury wallet, match
+//                          EXPO_PUBLIC_VOUCHER_ISSUER); issue them with `npm run voucher`
+//   RELAY_CREDIT_MARKUP    Multiplier over provider prices (default 1.5, match EXPO_PUBLIC_CREDIT_MARKUP)
+//   RELAY_ADMIN_TOKEN      Enables POST /v1/admin/credits for granting credits in testing
+//   RELAY_UPSTREAM_ORIGIN  Sends every provider request here instead, e.g. a local mock
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = process.env.RELAY_DATA_FILE || path.join(path.dirname(fileURLToPath(import.meta.url)), 'relay-data.json');
+const RPC_URL = process.env.RELAY_RPC_URL || 'https://api.mainnet-beta.solana.com';
+const TREASURY_WALLET = process.env.RELAY_TREASURY_WALLET || '9WzDXwBbmPdCBoccYHjkKxPFPdwJBKZQTm8D9P3CZqJV';
+const PURP_MINT = process.env.RELAY_PURP_MINT || 'PURPvHhLS5YJxAVDc9P5rFMVWZPQa8q9P3qVY8qJZJJ';
+const VOUCHER_ISSUER = process.env.RELAY_VOUCHER_ISSUER || TREASURY_WALLET;
+const ADMIN_TOKEN = process.env.RELAY_ADMIN_TOKEN;
+const UPSTREAM_ORIGIN = process.env.RELAY_UPSTREAM_ORIGIN;
+
+// Longest session the relay accepts, matching RELAY_SESSION_TTL_MS in the app
+const MAX_SESSION_MS = 24 * 60 * 60 * 1000;
+// Output cap applied to every forwarded request so a single call can't run up unbounded cost
+const MAX_OUTPUT_TOKENS = 4096;
+// Runs idle this long are forgotten
+const RUN_TTL_MS = 60 * 60 * 1000;
+
+// Model prices (USD per million tokens), credit constants and packages, shared with the app so
+// both charge the same; the formula matches src/services/credit-pricing.ts.
+const PRICING = JSON.parse(fs.readFileSync(new URL('../src/services/pricing.json', import.meta.url), 'utf8'));
+const MODEL_PRICING = PRICING.models;
+const USD_PER_CREDIT = PRICING.usdPerCredit;
+const CREDIT_MARKUP = Number(process.env.RELAY_CREDIT_MARKUP) || 1.5;
+const MIN_REQUEST_CREDITS = PRICING.minRequestCredits;
+const TOOL_ROUND_CREDITS = PRICING.toolRoundCredits;
+const CHARS_PER_TOKEN = 4;
+
+// Credit packages by payment
+const CREDIT_PACKAGES = PRICING.creditPackages;
+
+const UPSTREAMS = {
+  claude: {
+    origin: 'https://api.anthropic.com',
+    key: process.env.CLAUDE_API_KEY,
+    route: (pathname) => (pathname === '/v1/messages' ? {} : null),
+    credential: (req) => req.headers['x-api-key'],
+    authorize: (headers, key) => {
+      headers['x-api-key'] = key;
+      headers['anthropic-version'] = '2023-06-01';
+    },
+  },
+  openai: {
+    origin: 'https://api.openai.com',
+    key: process.env.OPENAI_API_KEY,
+    route: (pathname) => (pathname === '/v1/chat/completions' ? {} : null),
+    credential: bearerToken,
+    authorize: (headers, key) => {
+      headers.authorization = `Bearer ${key}`;
+    },
+  },
+  gemini: {
+    origin: 'https://generativelanguage.googleapis.com',
+    key: process.env.GEMINI_API_KEY,
+    route: (pathname) => {
+      const match = pathname.match(/^\/v1beta\/models\/([\w.-]+):(generateContent|streamGenerateContent)$/);
+      return match ? { model: match[1], stream: match[2] === 'streamGenerateContent' } : null;
+    },
+    credential: (req, url) => url.searchParams.get('key'),
+    authorize: (headers, key) => {
+      headers['x-goog-api-key'] = key;
+    },
+  },
+  doubao: {
+    origin: 'https://ark.cn-beijing.volces.com',
+    key: process.env.DOUBAO_API_KEY,
+    route: (pathname) => (pathname === '/api/v3/chat/completions' ? {} : null),
+    credential: bearerToken,
+    authorize: (headers, key) => {
+      headers.authorization = `Bearer ${key}`;
+    },
+  },
+};
+
+class RelayError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function bearerToken(req) {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// DER prefix that turns a raw 32-byte ed25519 key into an SPKI public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+function encodeBase58(bytes) {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+  let text = '';
+  while (value > 0n) {
+    text = BASE58_ALPHABET[Number(value % 58n)] + text;
+    value /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    text = `1${text}`;
+  }
+  return text;
+}
+
+// Ledger
+
+function loadLedger() {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    return { wallets: {}, purchases: {} };
+  }
+}
+
+const ledger = loadLedger();
+
+function saveLedger() {
+  // Write then rename so a crash never leaves a half-written file
+  const temp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(ledger, null, 2));
+  fs.renameSync(temp, DATA_FILE);
+}
+
+// Receipts
+
+// DER prefix that turns a 32-byte ed25519 seed into a PKCS#8 private key
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+function loadReceiptKey() {
+  if (!process.env.RELAY_RECEIPT_KEY && !ledger.receiptKey) {
+    ledger.receiptKey = crypto.randomBytes(32).toString('base64');
+    saveLedger();
+  }
+  const seed = Buffer.from(process.env.RELAY_RECEIPT_KEY || ledger.receiptKey, 'base64');
+  return crypto.createPrivateKey({ key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]), format: 'der', type: 'pkcs8' });
+}
+
+const receiptKey = loadReceiptKey();
+const receiptPublicKey = encodeBase58(
+  crypto.createPublicKey(receiptKey).export({ format: 'der', type: 'spki' }).subarray(ED25519_SPKI_PREFIX.length)
+);
+
+// Must match receiptMessage in src/services/credit-ledger.ts
+const receiptMessage = ({ version, signature, wallet, token, amount, credits, issuedAt }) =>
+  JSON.stringify({ version, signature, wallet, token, amount, credits, issuedAt });
+
+// A receipt ties the credits granted to the on-chain payment and the wallet that made it
+function issueReceipt(signature, purchase) {
+  const payload = {
+    version: 1,
+    signature,
+    wallet: purchase.wallet,
+    token: purchase.token,
+    amount: purchase.amount,
+    credits: purchase.credits,
+    issuedAt: purchase.timestamp,
+  };
+  const receiptSignature = crypto.sign(null, Buffer.from(receiptMessage(payload)), receiptKey);
+  return { payload, signature: receiptSignature.toString('base64') };
+}
+
+const getCredits = (wallet) => ledger.wallets[wallet]?.credits ?? 0;
+
+function addCredits(wallet, credits) {
+  ledger.wallets[wallet] = { credits: getCredits(wallet) + credits };
+  saveLedger();
+}
+
+// Sessions
+
+function decodeBase58(text) {
+  let value = 0n;
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new RelayError(401, 'Invalid wallet address');
+    value = value * 58n + BigInt(digit);
+  }
+  const bytes = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value % 256n));
+    value /= 256n;
+  }
+  for (const char of text) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+  return Buffer.from(bytes);
+}
+
+function verifySignature(publicKey, message, signatureBytes) {
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]),
+    format: 'der',
+    type: 'spki',
+  });
+  return signatureBytes.length === 64 && crypto.verify(null, message, key, signatureBytes);
+}
+
+// Must match createSessionMessage in src/services/relay.ts
+const sessionMessage = ({ wallet, expiresAt, nonce }) =>
+  `Solana AI Chat relay session\nWallet: ${wallet}\nExpires: ${new Date(expiresAt).toISOString()}\nNonce: ${nonce}`;
+
+// Credentials are "<base64url session>" or "<base64url session>.<run id>"
+function authenticate(credential) {
+  if (!credential) throw new RelayError(401, 'Missing relay session');
+
+  const [encoded, runId] = credential.split('.');
+  let session;
+  try {
+    session = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new RelayError(401, 'Unreadable relay session');
+  }
+
+  const { wallet, expiresAt, nonce, signature } = session;
+  if (typeof wallet !== 'string' || typeof expiresAt !== 'number' || typeof nonce !== 'string' || typeof signature !== 'string') {
+    throw new RelayError(401, 'Malformed relay session');
+  }
+  if (expiresAt < Date.now() || expiresAt > Date.now() + MAX_SESSION_MS) {
+    throw new RelayError(401, 'Relay session expired');
+  }
+  if (runId !== undefined && !/^[\w-]{1,64}$/.test(runId)) {
+    throw new RelayError(400, 'Invalid run id');
+  }
+
+  const publicKey = decodeBase58(wallet);
+  if (publicKey.length !== 32) throw new RelayError(401, 'Invalid wallet address');
+
+  // Wallets return either the bare signature or the message with the signature appended
+  const message = Buffer.from(sessionMessage(session));
+  const signed = Buffer.from(signature, 'base64');
+  const signatureBytes = signed.length === 64 ? signed : signed.subarray(signed.length - 64);
+
+  if (!verifySignature(publicKey, message, signatureBytes)) {
+    throw new RelayError(401, 'Invalid relay session signature');
+  }
+
+  return { wallet, runId };
+}
+
+// Vouchers
+
+// Must match voucherMessage in src/services/vouchers.ts and relay/create-voucher.mjs
+const voucherMessage = ({ version, id, credits, expiresAt, wallet }) =>
+  JSON.stringify({ version, id, credits, expiresAt, wallet: wallet ?? null });
+
+// Each voucher credits one wallet once; redeeming it again from that wallet is a no-op
+function redeemVoucher(wallet, voucher) {
+  const payload = voucher?.payload;
+  if (
+    typeof voucher?.signature !== 'string' ||
+    payload?.version !== 1 ||
+    typeof payload.id !== 'string' ||
+    !Number.isInteger(payload.credits) || payload.credits <= 0 ||
+    typeof payload.expiresAt !== 'number'
+  ) {
+    throw new RelayError(400, 'Malformed voucher');
+  }
+  if (!verifySignature(decodeBase58(VOUCHER_ISSUER), Buffer.from(voucherMessage(payload)), Buffer.from(voucher.signature, 'base64'))) {
+    throw new RelayError(400, 'That voucher code is not valid');
+  }
+
+  ledger.vouchers ??= {};
+  const redeemed = ledger.vouchers[payload.id];
+  if (redeemed) {
+    if (redeemed.wallet !== wallet) throw new RelayError(409, 'This voucher has already been redeemed');
+    return;
+  }
+  if (payload.expiresAt < Date.now()) throw new RelayError(400, 'This voucher has expired');
+  if (payload.wallet && payload.wallet !== wallet) throw new RelayError(403, 'This voucher is for a different wallet');
+
+  ledger.vouchers[payload.id] = { wallet, credits: payload.credits, timestamp: Date.now() };
+  addCredits(wallet, payload.credits);
+}
+
+// Metering
+
+// One run is every model request behind a single reply, charged as a whole like the app's ledger
+const runs = new Map();
+
+const getModelPricing = (provider, model) => MODEL_PRICING[provider]?.[model];
+
+function calculateCreditCost(provider, model, usage, toolRounds) {
+  const pricing = getModelPricing(provider, model);
+  const usd = (usage.input * pricing.input + usage.output * pricing.output) / 1_000_000;
+  const credits = Math.ceil(usd * CREDIT_MARKUP / USD_PER_CREDIT - 1e-9);
+  return Math.max(MIN_REQUEST_CREDITS, credits) + toolRounds * TOOL_ROUND_CREDITS;
+}
+
+// Find or start the run a request belongs to. Run ids come from the client, so a run only
+// groups requests for pricing; every request is still checked and held on its own.
+function startRun(wallet, runId, provider, model) {
+  for (const [id, run] of runs) {
+    if (Date.now() - run.updatedAt > RUN_TTL_MS) runs.delete(id);
+  }
+
+  const id = `${wallet}:${runId ?? crypto.randomUUID()}`;
+  let run = runs.get(id);
+  if (!run || run.provider !== provider || run.model !== model) {
+    run = { wallet, provider, model, usage: { input: 0, output: 0 }, toolRounds: 0, charged: 0 };
+    runs.set(id, run);
+  }
+  run.updatedAt = Date.now();
+  return run;
+}
+
+// Reserve a request's worst case before forwarding it: the prompt, counted roughly from the
+// request size, the full output cap and a tool round. Holds come off the balance right away,
+// so parallel requests can't all pass on the same credits.
+function holdRequest(run, body, maxOutputTokens) {
+  const promptTokens = Math.ceil(JSON.stringify(body).length / CHARS_PER_TOKEN);
+  const hold = calculateCreditCost(run.provider, run.model, { input: promptTokens, output: maxOutputTokens }, 1);
+  if (getCredits(run.wallet) < hold) {
+    throw new RelayError(402, 'Not enough credits');
+  }
+  addCredits(run.wallet, -hold);
+  return hold;
+}
+
+// Charge what the request added to its run's total against the hold and return the rest. The
+// hold normally covers it; an overrun (the prompt estimate is rough) is capped at the balance,
+// since the reply is already delivered, and the next request is refused until credits are added.
+function settleRequest(run, hold, usage, calledTools) {
+  run.usage = { input: run.usage.input + usage.input, output: run.usage.output + usage.output };
+  if (calledTools) run.toolRounds++;
+
+  const cost = calculateCreditCost(run.provider, run.model, run.usage, run.toolRounds);
+  const charge = Math.min(cost - run.charged, hold + getCredits(run.wallet));
+  addCredits(run.wallet, hold - charge);
+  run.charged += charge;
+}
+
+// Clamp output length and make sure usage is reported, whatever the client asked for
+function prepareBody(provider, body, stream) {
+  if (provider === 'gemini') {
+    const limit = body.generationConfig?.maxOutputTokens ?? MAX_OUTPUT_TOKENS;
+    body.generationConfig = { ...body.generationConfig, maxOutputTokens: Math.min(limit, MAX_OUTPUT_TOKENS) };
+    return body;
+  }
+
+  body.max_tokens = Math.min(body.max_tokens ?? MAX_OUTPUT_TOKENS, MAX_OUTPUT_TOKENS);
+  if (provider !== 'claude' && stream) {
+    body.stream_options = { ...body.stream_options, include_usage: true };
+  }
+  return body;
+}
+
+// Reads usage and tool calls out of a provider response, whole or as SSE chunks
+function createUsageReader(provider) {
+  const usage = { input: 0, output: 0 };
+  let calledTools = false;
+
+  const read = (payload) => {
+    switch (provider) {
+      case 'claude':
+        if (payload.usage) {
+          // Whole messages and message_delta events; output_tokens is cumulative
+          usage.input = payload.usage.input_tokens ?? usage.input;
+          usage.output = payload.usage.output_tokens ?? usage.output;
+        }
+        if (payload.type === 'message_start') {
+          usage.input = payload.message?.usage?.input_tokens || 0;
+        }
+        if (payload.content?.some?.((block) => block.type === 'tool_use') || payload.content_block?.type === 'tool_use') {
+          calledTools = true;
+        }
+        break;
+      case 'openai':
+      case 'doubao':
+        if (payload.usage) {
+          usage.input = payload.usage.prompt_tokens || 0;
+          usage.output = payload.usage.completion_tokens || 0;
+        }
+        if (payload.choices?.some((choice) => choice.message?.tool_calls?.length || choice.delta?.tool_calls?.length)) {
+          calledTools = true;
+        }
+        break;
+      case 'gemini':
+        // Each chunk carries running totals
+        if (payload.usageMetadata) {
+          usage.input = payload.usageMetadata.promptTokenCount || 0;
+          usage.output = payload.usageMetadata.candidatesTokenCount || 0;
+        }
+        if (payload.candidates?.some((candidate) => candidate.content?.parts?.some((part) => part.functionCall))) {
+          calledTools = true;
+        }
+        break;
+    }
+  };
+
+  let buffer = '';
+  const readEvents = (text) => {
+    buffer += text;
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop();
+    for (const block of blocks) {
+      for (const line of block.split(/\r?\n/)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (!data || data === '[DONE]') continue;
+        try {
+          read(JSON.parse(data));
+        } catch {
+          // Not JSON; nothing to meter
+        }
+      }
+    }
+  };
+
+  return {
+    readJSON: read,
+    readEvents,
+    finish: () => {
+      readEvents('\n\n');
+      return { usage, calledTools };
+    },
+  };
+}
+
+// Handlers
+
+// Request bodies are JSON well under this; larger ones are refused rather than buffered
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+// Clients that stop sending partway through a body are disconnected
+const BODY_IDLE_MS = 15 * 1000;
+
+async function readBody(req) {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    throw new RelayError(413, 'Request body too large');
+  }
+
+  req.setTimeout(BODY_IDLE_MS, () => req.destroy(new RelayError(408, 'Request body timed out')));
+  const chunks = [];
+  let size = 0;
+  try {
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) throw new RelayError(413, 'Request body too large');
+      chunks.push(chunk);
+    }
+  } finally {
+    // Streamed replies can go quiet for a while; only the upload is timed
+    req.setTimeout(0);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    throw new RelayError(400, 'Request body must be JSON');
+  }
+}
+
+async function proxy(req, res, provider, url) {
+  const upstream = UPSTREAMS[provider];
+  const route = upstream.route(url.pathname.slice(provider.length + 1));
+  if (!route || req.method !== 'POST') throw new RelayError(404, 'Not found');
+  if (!upstream.key) throw new RelayError(503, `${provider} is not available through the relay`);
+
+  const { wallet, runId } = authenticate(upstream.credential(req, url));
+  const body = await readBody(req);
+  const model = route.model ?? body.model;
+  const stream = route.stream ?? !!body.stream;
+  if (!getModelPricing(provider, model)) {
+    throw new RelayError(400, `Model ${model} is not available through the relay`);
+  }
+
+  const run = startRun(wallet, runId, provider, model);
+  const prepared = prepareBody(provider, body, stream);
+  const hold = holdRequest(
+    run,
+    prepared,
+    provider === 'gemini' ? prepared.generationConfig.maxOutputTokens : prepared.max_tokens
+  );
+
+  const upstreamUrl = new URL(url.pathname.slice(provider.length + 1), UPSTREAM_ORIGIN || upstream.origin);
+  if (stream && provider === 'gemini') upstreamUrl.searchParams.set('alt', 'sse');
+  const headers = { 'content-type': 'application/json' };
+  upstream.authorize(headers, upstream.key);
+
+  // Stop the provider request if the app goes away
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  let settled = false;
+  try {
+    const response = await fetch(upstreamUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(prepared),
+      signal: controller.signal,
+    });
+
+    res.writeHead(response.status, {
+      'content-type': response.headers.get('content-type') || 'application/json',
+      'cache-control': 'no-cache',
+    });
+
+    // Failed requests are passed through uncharged
+    if (!response.ok || !response.body) {
+      res.end(await response.text());
+      return;
+    }
+
+    const reader = createUsageReader(provider);
+    const decoder = new TextDecoder();
+    let text = '';
+    try {
+      for await (const chunk of response.body) {
+        res.write(chunk);
+        if (stream) {
+          reader.readEvents(decoder.decode(chunk, { stream: true }));
+        } else {
+          text += decoder.decode(chunk, { stream: true });
+        }
+      }
+    } finally {
+      // Whatever the provider reported is charged, even if the app stopped reading
+      if (stream) {
+        reader.readEvents(decoder.decode());
+      } else {
+        try {
+          reader.readJSON(JSON.parse(text + decoder.decode()));
+        } catch {
+          // Incomplete body: no usage to charge
+        }
+      }
+      const { usage, calledTools } = reader.finish();
+      settleRequest(run, hold, usage, calledTools);
+      settled = true;
+      res.end();
+    }
+  } finally {
+    if (!settled) addCredits(wallet, hold);
+  }
+}
+
+// Memo on a Solana Pay purchase naming the wallet to credit, which may not be the one that
+// paid. Must match creditMemo in src/services/relay.ts.
+const creditMemo = (wallet) => `Solana AI Chat credits for ${wallet}`;
+
+function claimedPurchase(wallet, signature) {
+  const purchase = ledger.purchases[signature];
+  if (purchase.wallet !== wallet) throw new RelayError(409, 'Payment already claimed');
+  return { status: 'credited', credits: purchase.credits, receipt: issueReceipt(signature, purchase) };
+}
+
+async function verifyPurchase(wallet, signature) {
+  if (ledger.purchases[signature]) return claimedPurchase(wallet, signature);
+
+  const rpcResponse = await fetch(RPC_URL, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getTransaction',
+      params: [signature, { encoding: 'jsonParsed', commitment: 'finalized', maxSupportedTransactionVersion: 0 }],
+    }),
+  });
+  const { result: transaction, error } = await rpcResponse.json();
+  if (error) throw new RelayError(502, error.message || 'RPC error');
+  // Not finalized yet; the app submits it again later
+  if (!transaction) return { status: 'pending' };
+  if (transaction.meta?.err) throw new RelayError(400, 'Payment transaction failed');
+
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) => key.pubkey ?? key);
+  // Top-level and inner instructions, as the app checks, since wallets may wrap the transfer
+  const instructions = [
+    ...transaction.transaction.message.instructions,
+    ...(transaction.meta?.innerInstructions || []).flatMap((inner) => inner.instructions),
+  ].filter((ix) => ix.parsed);
+  // A payment from another wallet counts when its memo says it's for this one
+  const paidFor = instructions.some((ix) => ix.program === 'spl-memo' && ix.parsed === creditMemo(wallet));
+
+  let payment = null;
+  for (const { program, parsed } of instructions) {
+    const info = parsed.info || {};
+    if (program === 'system' && parsed.type === 'transfer' && (info.source === wallet || paidFor) && info.destination === TREASURY_WALLET) {
+      payment = { token: 'SOL', amount: info.lamports / 1e9 };
+    }
+    if (program === 'spl-token' && parsed.type === 'transferChecked' && info.mint === PURP_MINT && (info.authority === wallet || paidFor)) {
+      const destinationIndex = accountKeys.indexOf(info.destination);
+      const destination = transaction.meta.postTokenBalances?.find((balance) => balance.accountIndex === destinationIndex);
+      if (destination?.owner === TREASURY_WALLET) {
+        payment = { token: 'PURP', amount: info.tokenAmount.uiAmount };
+      }
+    }
+  }
+  if (!payment) throw new RelayError(400, 'No credit payment from this wallet in that transaction');
+
+  const pkg = CREDIT_PACKAGES.find((p) => p.token === payment.token && Math.abs(p.price - payment.amount) < 1e-9);
+  if (!pkg) throw new RelayError(400, 'Payment amount does not match a credit package');
+
+  // Another request for the same payment may have credited it while this one waited on the RPC
+  if (ledger.purchases[signature]) return claimedPurchase(wallet, signature);
+
+  const purchase = { wallet, credits: pkg.credits, token: pkg.token, amount: pkg.price, timestamp: Date.now() };
+  ledger.purchases[signature] = purchase;
+  addCredits(wallet, pkg.credits);
+  return { status: 'credited', credits: pkg.credits, receipt: issueReceipt(signature, purchase) };
+}
+
+function sendJSON(res, status, data) {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, 'http://relay');
+
+  // The web build calls the relay cross-origin
+  res.setHeader('access-control-allow-origin', '*');
+  res.setHeader('access-control-allow-headers', 'authorization, content-type, x-api-key, anthropic-version');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (url.pathname === '/health') {
+    sendJSON(res, 200, { ok: true });
+    return;
+  }
+
+  if (url.pathname === '/v1/credits' && req.method === 'GET') {
+    const { wallet } = authenticate(bearerToken(req));
+    sendJSON(res, 200, { wallet, credits: getCredits(wallet) });
+    return;
+  }
+
+  if (url.pathname === '/v1/receipts/key' && req.method === 'GET') {
+    sendJSON(res, 200, { publicKey: receiptPublicKey });
+    return;
+  }
+
+  // Every receipt for the wallet, for restoring purchases on a new install
+  if (url.pathname === '/v1/credits/receipts' && req.method === 'GET') {
+    const { wallet } = authenticate(bearerToken(req));
+    const receipts = Object.entries(ledger.purchases)
+      .filter(([, purchase]) => purchase.wallet === wallet)
+      .map(([signature, purchase]) => issueReceipt(signature, purchase));
+    sendJSON(res, 200, { receipts });
+    return;
+  }
+
+  if (url.pathname === '/v1/credits/purchases' && req.method === 'POST') {
+    const { wallet } = authenticate(bearerToken(req));
+    const { signature } = await readBody(req);
+    if (typeof signature !== 'string') throw new RelayError(400, 'Missing transaction signature');
+    sendJSON(res, 200, await verifyPurchase(wallet, signature));
+    return;
+  }
+
+  if (url.pathname === '/v1/credits/vouchers' && req.method === 'POST') {
+    const { wallet } = authenticate(bearerToken(req));
+    const { voucher } = await readBody(req);
+    redeemVoucher(wallet, voucher);
+    sendJSON(res, 200, { wallet, credits: getCredits(wallet) });
+    return;
+  }
+
+  if (url.pathname === '/v1/admin/credits' && req.method === 'POST') {
+    if (!ADMIN_TOKEN || bearerToken(req) !== ADMIN_TOKEN) throw new RelayError(401, 'Unauthorized');
+    const { wallet, credits } = await readBody(req);
+    if (typeof wallet !== 'string' || !Number.isInteger(credits)) throw new RelayError(400, 'Expected { wallet, credits }');
+    addCredits(wallet, credits);
+    sendJSON(res, 200, { wallet, credits: getCredits(wallet) });
+    return;
+  }
+
+  const provider = url.pathname.split('/')[1];
+  if (UPSTREAMS[provider]) {
+    await proxy(req, res, provider, url);
+    return;
+  }
+
+  throw new RelayError(404, 'Not found');
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    const status = error instanceof RelayError ? error.status : 500;
+    if (status === 500) console.error(error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    // Same error shape as the providers, so the app's existing error handling applies
+    sendJSON(res, status, { error: { message: status === 500 ? 'Relay error' : error.message } });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Credits relay listening on http://localhost:${PORT}`);
+});
@@ -13,6 +13,7 @@ interface NavItem {
 const NAV_ITEMS: NavItem[] = [
   { name: 'Chat', path: '/', icon: '💬', iconActive: '💬' },
   { name: 'History', path: '/history', icon: '📋', iconActive: '📋' },
+  { name: 'Usage', path: '/usage', icon: '📊', iconActive: '📊' },
   { name: 'Settings', path: '/settings', icon: '⚙️', iconActive: '⚙️' },
 ];
 
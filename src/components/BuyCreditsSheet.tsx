@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -8,25 +8,106 @@ import {
   ScrollView,
   ActivityIndicator,
   Alert,
+  TextInput,
+  Linking,
 } from 'react-native';
-import { useCredits, CREDIT_PACKAGES } from '../providers/CreditsProvider';
+import * as Clipboard from 'expo-clipboard';
+import QRCode from 'react-native-qrcode-svg';
+import { useCredits, CREDIT_PACKAGES, PURP_MINT, PaymentRequest } from '../providers/CreditsProvider';
 import { triggerHaptic, triggerNotification, triggerSelection, HapticStyle, NotificationType } from '../utils/haptics';
 import { useSolana } from '../providers/SolanaProvider';
 import { PaymentToken, CreditPackage } from '../types';
 
+// SOL kept back for the transaction fee when checking what the wallet can afford
+const SOL_FEE_RESERVE = 0.00001;
+
+// How often an open Solana Pay request checks for its payment
+const PAYMENT_POLL_MS = 3000;
+
+const RECEIPT_PENDING_MESSAGE =
+  "Your payment went through, but the credits relay hasn't issued its receipt yet. Your credits will be added once it does; the app asks again each time it starts or your wallet connects.";
+
 interface BuyCreditsSheetProps {
   visible: boolean;
   onClose: () => void;
 }
 
 export function BuyCreditsSheet({ visible, onClose }: BuyCreditsSheetProps) {
-  const { wallet, connect, connecting } = useSolana();
-  const { balance, purchaseCredits, isLoading, getPackagesByToken } = useCredits();
+  const { wallet, connect, connecting, refreshBalance } = useSolana();
+  const {
+    balance,
+    purchaseCredits,
+    createPaymentRequest,
+    checkPaymentRequest,
+    redeemVoucher,
+    isLoading,
+    getPackagesByToken,
+    awaitingReceipt,
+  } = useCredits();
   const [selectedToken, setSelectedToken] = useState<PaymentToken>('SOL');
   const [selectedPackage, setSelectedPackage] = useState<string | null>(null);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [paymentRequest, setPaymentRequest] = useState<PaymentRequest | null>(null);
+  const [paymentSeen, setPaymentSeen] = useState(false);
 
   const packages = getPackagesByToken(selectedToken);
 
+  // Holdings decide which packages the connected wallet can pay for, so make sure they're current
+  useEffect(() => {
+    if (visible && wallet.connected) {
+      refreshBalance();
+    }
+  }, [visible, wallet.connected]);
+
+  // Poll the open Solana Pay request until its payment is confirmed or fails
+  useEffect(() => {
+    if (!visible || !paymentRequest) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      while (!cancelled) {
+        try {
+          const purchase = await checkPaymentRequest(paymentRequest.purchase.id);
+          if (cancelled) return;
+          if (purchase.status === 'confirmed') {
+            triggerNotification(NotificationType.Success);
+            setPaymentRequest(null);
+            if (awaitingReceipt(purchase)) {
+              Alert.alert('Payment Confirmed', RECEIPT_PENDING_MESSAGE, [{ text: 'Done', onPress: onClose }]);
+            } else {
+              Alert.alert('Purchase Successful!', 'Your credits have been added to your account.', [{ text: 'Done', onPress: onClose }]);
+            }
+            return;
+          }
+          if (purchase.status === 'failed') {
+            triggerNotification(NotificationType.Error);
+            setPaymentRequest(null);
+            Alert.alert('Purchase Failed', purchase.failureReason || 'The payment could not be verified');
+            return;
+          }
+          setPaymentSeen(!!purchase.signature);
+        } catch (error: any) {
+          setPaymentRequest(null);
+          Alert.alert('Purchase Failed', error.message || 'Something went wrong');
+          return;
+        }
+        await new Promise(resolve => setTimeout(resolve, PAYMENT_POLL_MS));
+      }
+    };
+    poll();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, paymentRequest]);
+
+  const purpBalance = Number(wallet.tokens.find(t => t.mint === PURP_MINT)?.uiBalance ?? 0);
+  const holdings = selectedToken === 'SOL' ? wallet.balance - SOL_FEE_RESERVE : purpBalance;
+  const canAfford = (pkg: CreditPackage) => !wallet.connected || pkg.price <= holdings;
+  const selected = packages.find(p => p.id === selectedPackage);
+  // Holdings only limit paying from the connected wallet; Solana Pay can pay from any wallet
+  const canPurchase = !!selected && canAfford(selected);
+
   const handlePurchase = async () => {
     if (!selectedPackage) {
       Alert.alert('Select a package', 'Please select a credit package to purchase');
@@ -38,24 +119,94 @@ export function BuyCreditsSheet({ visible, onClose }: BuyCreditsSheetProps) {
       return;
     }
 
+    // The package may have been picked before this wallet connected
+    if (selected && !canAfford(selected)) {
+      Alert.alert('Insufficient Balance', `Not enough ${selected.token} in your wallet for this package`);
+      return;
+    }
+
     try {
       triggerHaptic(HapticStyle.Medium);
-      const signature = await purchaseCredits(selectedPackage);
+      const purchase = await purchaseCredits(selectedPackage);
+      const transactionLabel = `Transaction: ${purchase.signature?.slice(0, 8)}...`;
 
       triggerNotification(NotificationType.Success);
-      Alert.alert(
-        'Purchase Successful!',
-        `Your credits have been added to your account.\n\nTransaction: ${signature.slice(0, 8)}...`,
-        [{ text: 'Done', onPress: onClose }]
-      );
+      if (awaitingReceipt(purchase)) {
+        Alert.alert(
+          'Payment Confirmed',
+          `${RECEIPT_PENDING_MESSAGE}\n\n${transactionLabel}`,
+          [{ text: 'Done', onPress: onClose }]
+        );
+      } else if (purchase.status === 'confirmed') {
+        Alert.alert(
+          'Purchase Successful!',
+          `Your credits have been added to your account.\n\n${transactionLabel}`,
+          [{ text: 'Done', onPress: onClose }]
+        );
+      } else {
+        Alert.alert(
+          'Payment Sent',
+          `Your credits will be added once the transaction is finalized on-chain.\n\n${transactionLabel}`,
+          [{ text: 'Done', onPress: onClose }]
+        );
+      }
+    } catch (error: any) {
+      triggerNotification(NotificationType.Error);
+      Alert.alert('Purchase Failed', error.message || 'Something went wrong');
+    }
+  };
+
+  const handleSolanaPay = async () => {
+    if (!selectedPackage) {
+      Alert.alert('Select a package', 'Please select a credit package to purchase');
+      return;
+    }
+
+    try {
+      triggerHaptic(HapticStyle.Medium);
+      setPaymentSeen(false);
+      setPaymentRequest(await createPaymentRequest(selectedPackage));
     } catch (error: any) {
       triggerNotification(NotificationType.Error);
       Alert.alert('Purchase Failed', error.message || 'Something went wrong');
     }
   };
 
+  const handleOpenInWallet = async () => {
+    if (!paymentRequest) return;
+    triggerHaptic();
+    try {
+      await Linking.openURL(paymentRequest.url);
+    } catch {
+      Alert.alert('No Wallet Found', 'Scan the QR code with a Solana wallet instead');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!paymentRequest) return;
+    triggerHaptic();
+    await Clipboard.setStringAsync(paymentRequest.url);
+    Alert.alert('Copied', 'Payment link copied to clipboard');
+  };
+
+  const handleRedeem = async () => {
+    if (!voucherCode.trim()) return;
+
+    try {
+      triggerHaptic(HapticStyle.Medium);
+      const grant = await redeemVoucher(voucherCode);
+      setVoucherCode('');
+      triggerNotification(NotificationType.Success);
+      Alert.alert('Voucher Redeemed!', `+${grant.credits.toLocaleString()} credits have been added to your account.`);
+    } catch (error: any) {
+      triggerNotification(NotificationType.Error);
+      Alert.alert('Redeem Failed', error.message || 'Could not redeem the voucher');
+    }
+  };
+
   const renderPackage = (pkg: CreditPackage) => {
     const isSelected = selectedPackage === pkg.id;
+    const affordable = canAfford(pkg);
 
     return (
       <TouchableOpacity
@@ -64,6 +215,7 @@ export function BuyCreditsSheet({ visible, onClose }: BuyCreditsSheetProps) {
           styles.packageCard,
           isSelected && styles.packageCardSelected,
           pkg.popular && styles.packageCardPopular,
+          !affordable && styles.packageCardDisabled,
         ]}
         onPress={() => {
           triggerSelection();
@@ -96,6 +248,10 @@ export function BuyCreditsSheet({ visible, onClose }: BuyCreditsSheetProps) {
           </Text>
         </View>
 
+        {!affordable && (
+          <Text style={styles.insufficientText}>Not enough {pkg.token} in your wallet</Text>
+        )}
+
         {isSelected && (
           <View style={styles.selectedIndicator}>
             <Text style={styles.selectedIndicatorText}>✓</Text>
@@ -132,93 +288,177 @@ export function BuyCreditsSheet({ visible, onClose }: BuyCreditsSheetProps) {
           )}
         </View>
 
-        {/* Token Selector */}
-        <View style={styles.tokenSelector}>
-          <TouchableOpacity
-            style={[styles.tokenButton, selectedToken === 'SOL' && styles.tokenButtonActive]}
-            onPress={() => {
-              triggerSelection();
-              setSelectedToken('SOL');
-              setSelectedPackage(null);
-            }}
-          >
-            <Text style={styles.tokenIcon}>◎</Text>
-            <Text style={[styles.tokenText, selectedToken === 'SOL' && styles.tokenTextActive]}>
-              SOL
+        {paymentRequest ? (
+          /* Solana Pay */
+          <View style={styles.solanaPayContainer}>
+            <Text style={styles.infoTitle}>Pay with Solana Pay</Text>
+            <Text style={styles.solanaPayHint}>
+              Scan with any Solana wallet to pay {paymentRequest.purchase.amount} {paymentRequest.purchase.token} for{' '}
+              {paymentRequest.purchase.credits.toLocaleString()} credits
             </Text>
-          </TouchableOpacity>
 
-          <TouchableOpacity
-            style={[styles.tokenButton, selectedToken === 'PURP' && styles.tokenButtonActive]}
-            onPress={() => {
-              triggerSelection();
-              setSelectedToken('PURP');
-              setSelectedPackage(null);
-            }}
-          >
-            <Text style={styles.tokenIcon}>💜</Text>
-            <Text style={[styles.tokenText, selectedToken === 'PURP' && styles.tokenTextActive]}>
-              PURP
-            </Text>
-          </TouchableOpacity>
-        </View>
+            <View style={styles.qrCode}>
+              <QRCode value={paymentRequest.url} size={220} backgroundColor="#fff" color="#000" />
+            </View>
 
-        {/* Packages */}
-        <ScrollView style={styles.packagesContainer} showsVerticalScrollIndicator={false}>
-          <View style={styles.packagesGrid}>
-            {packages.map(renderPackage)}
-          </View>
+            <View style={styles.solanaPayActions}>
+              <TouchableOpacity style={styles.solanaPayAction} onPress={handleOpenInWallet}>
+                <Text style={styles.solanaPayActionText}>Open in Wallet</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.solanaPayAction} onPress={handleCopyLink}>
+                <Text style={styles.solanaPayActionText}>Copy Link</Text>
+              </TouchableOpacity>
+            </View>
 
-          {/* Info */}
-          <View style={styles.infoCard}>
-            <Text style={styles.infoTitle}>How credits work</Text>
-            <Text style={styles.infoText}>
-              • 1-3 credits per AI message (varies by model){'\n'}
-              • Credits never expire{'\n'}
-              • Works across all AI providers{'\n'}
-              • Cheaper than paying per API call
+            <View style={styles.solanaPayStatus}>
+              <ActivityIndicator color="#14F195" size="small" />
+              <Text style={styles.solanaPayStatusText}>
+                {paymentSeen ? 'Payment found, confirming...' : 'Waiting for payment...'}
+              </Text>
+            </View>
+            <Text style={styles.walletInfo}>
+              You can close this screen; the payment is still credited when it lands.
             </Text>
+
+            <TouchableOpacity style={styles.solanaPayButton} onPress={() => setPaymentRequest(null)}>
+              <Text style={styles.solanaPayButtonText}>Back to Packages</Text>
+            </TouchableOpacity>
           </View>
-        </ScrollView>
-
-        {/* Purchase Button */}
-        <View style={styles.footer}>
-          {!wallet.connected ? (
-            <TouchableOpacity
-              style={styles.connectButton}
-              onPress={connect}
-              disabled={connecting}
-            >
-              {connecting ? (
-                <ActivityIndicator color="#fff" size="small" />
+        ) : (
+          <>
+            {/* Token Selector */}
+            <View style={styles.tokenSelector}>
+              <TouchableOpacity
+                style={[styles.tokenButton, selectedToken === 'SOL' && styles.tokenButtonActive]}
+                onPress={() => {
+                  triggerSelection();
+                  setSelectedToken('SOL');
+                  setSelectedPackage(null);
+                }}
+              >
+                <Text style={styles.tokenIcon}>◎</Text>
+                <Text style={[styles.tokenText, selectedToken === 'SOL' && styles.tokenTextActive]}>
+                  SOL
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.tokenButton, selectedToken === 'PURP' && styles.tokenButtonActive]}
+                onPress={() => {
+                  triggerSelection();
+                  setSelectedToken('PURP');
+                  setSelectedPackage(null);
+                }}
+              >
+                <Text style={styles.tokenIcon}>💜</Text>
+                <Text style={[styles.tokenText, selectedToken === 'PURP' && styles.tokenTextActive]}>
+                  PURP
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {wallet.connected && (
+              <Text style={styles.holdingsText}>
+                {selectedToken === 'SOL'
+                  ? `You have ${wallet.balance.toFixed(4)} SOL`
+                  : `You have ${purpBalance.toLocaleString()} PURP`}
+              </Text>
+            )}
+
+            {/* Packages */}
+            <ScrollView style={styles.packagesContainer} showsVerticalScrollIndicator={false}>
+              <View style={styles.packagesGrid}>
+                {packages.map(renderPackage)}
+              </View>
+
+              {/* Voucher */}
+              <View style={styles.voucherCard}>
+                <Text style={styles.infoTitle}>Have a voucher?</Text>
+                <View style={styles.voucherRow}>
+                  <TextInput
+                    style={styles.voucherInput}
+                    value={voucherCode}
+                    onChangeText={setVoucherCode}
+                    placeholder="Paste voucher code"
+                    placeholderTextColor="#666"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  <TouchableOpacity
+                    style={[styles.redeemButton, (!voucherCode.trim() || isLoading) && styles.purchaseButtonDisabled]}
+                    onPress={handleRedeem}
+                    disabled={!voucherCode.trim() || isLoading}
+                  >
+                    <Text style={styles.redeemButtonText}>Redeem</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              {/* Info */}
+              <View style={styles.infoCard}>
+                <Text style={styles.infoTitle}>How credits work</Text>
+                <Text style={styles.infoText}>
+                  • Priced by the tokens each message uses (varies by model){'\n'}
+                  • Credits never expire{'\n'}
+                  • Works across all AI providers{'\n'}
+                  • Cheaper than paying per API call
+                </Text>
+              </View>
+            </ScrollView>
+
+            {/* Purchase Button */}
+            <View style={styles.footer}>
+              {!wallet.connected ? (
+                <TouchableOpacity
+                  style={styles.connectButton}
+                  onPress={connect}
+                  disabled={connecting}
+                >
+                  {connecting ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.connectButtonText}>Connect Wallet to Purchase</Text>
+                  )}
+                </TouchableOpacity>
               ) : (
-                <Text style={styles.connectButtonText}>Connect Wallet to Purchase</Text>
+                <TouchableOpacity
+                  style={[styles.purchaseButton, !canPurchase && styles.purchaseButtonDisabled]}
+                  onPress={handlePurchase}
+                  disabled={!canPurchase || isLoading}
+                >
+                  {isLoading ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.purchaseButtonText}>
+                      {!selected
+                        ? 'Select a Package'
+                        : canPurchase
+                          ? `Purchase ${selected.credits.toLocaleString()} Credits`
+                          : `Not Enough ${selected.token}`}
+                    </Text>
+                  )}
+                </TouchableOpacity>
               )}
-            </TouchableOpacity>
-          ) : (
-            <TouchableOpacity
-              style={[styles.purchaseButton, !selectedPackage && styles.purchaseButtonDisabled]}
-              onPress={handlePurchase}
-              disabled={!selectedPackage || isLoading}
-            >
-              {isLoading ? (
-                <ActivityIndicator color="#fff" size="small" />
-              ) : (
-                <Text style={styles.purchaseButtonText}>
-                  {selectedPackage
-                    ? `Purchase ${packages.find(p => p.id === selectedPackage)?.credits.toLocaleString()} Credits`
-                    : 'Select a Package'}
+
+              {/* Solana Pay works without Mobile Wallet Adapter, from any wallet */}
+              <TouchableOpacity
+                style={styles.solanaPayButton}
+                onPress={handleSolanaPay}
+                disabled={!selectedPackage || isLoading}
+              >
+                <Text style={[styles.solanaPayButtonText, !selectedPackage && styles.solanaPayButtonTextDisabled]}>
+                  Pay from another wallet with Solana Pay
                 </Text>
-              )}
-            </TouchableOpacity>
-          )}
+              </TouchableOpacity>
 
-          {wallet.connected && (
-            <Text style={styles.walletInfo}>
-              Connected: {wallet.publicKey?.slice(0, 6)}...{wallet.publicKey?.slice(-4)} • {wallet.balance.toFixed(4)} SOL
-            </Text>
-          )}
-        </View>
+              {wallet.connected && (
+                <Text style={styles.walletInfo}>
+                  Connected: {wallet.publicKey?.slice(0, 6)}...{wallet.publicKey?.slice(-4)} • {wallet.balance.toFixed(4)} SOL
+                </Text>
+              )}
+            </View>
+          </>
+        )}
       </View>
     </Modal>
   );
@@ -331,6 +571,20 @@ const styles = StyleSheet.create({
   packageCardPopular: {
     borderColor: '#14F195',
   },
+  packageCardDisabled: {
+    opacity: 0.4,
+  },
+  insufficientText: {
+    color: '#ff6b6b',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  holdingsText: {
+    color: '#888',
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   popularBadge: {
     position: 'absolute',
     top: -10,
@@ -403,6 +657,36 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  voucherCard: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 20,
+  },
+  voucherRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  voucherInput: {
+    flex: 1,
+    backgroundColor: '#2a2a4e',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 14,
+  },
+  redeemButton: {
+    backgroundColor: '#9945FF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  redeemButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   infoCard: {
     backgroundColor: '#1a1a2e',
     borderRadius: 16,
@@ -451,6 +735,60 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  solanaPayButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  solanaPayButtonText: {
+    color: '#14F195',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  solanaPayButtonTextDisabled: {
+    color: '#666',
+  },
+  solanaPayContainer: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 20,
+  },
+  solanaPayHint: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  qrCode: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderRadius: 16,
+  },
+  solanaPayActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  solanaPayAction: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  solanaPayActionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  solanaPayStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 24,
+  },
+  solanaPayStatusText: {
+    color: '#14F195',
+    fontSize: 14,
+  },
   walletInfo: {
     color: '#666',
     fontSize: 12,
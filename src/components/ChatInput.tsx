@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import {
   View,
+  Text,
   TextInput,
   TouchableOpacity,
   StyleSheet,
@@ -8,26 +9,43 @@ import {
   Platform,
   ActivityIndicator,
 } from 'react-native';
-import { Svg, Path } from 'react-native-svg';
+import { Svg, Path, Rect } from 'react-native-svg';
 import { triggerHaptic } from '../utils/haptics';
 
 interface ChatInputProps {
-  onSend: (message: string) => void;
+  // Resolving false puts the message back in the box, since it wasn't sent
+  onSend: (message: string) => Promise<boolean> | void;
+  onStop?: () => void;
   isLoading: boolean;
   disabled?: boolean;
+  // Expected credits for sending the draft; null when it isn't paid with credits
+  estimateCredits?: (message: string) => number | null;
 }
 
-export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
+export function ChatInput({ onSend, onStop, isLoading, disabled, estimateCredits }: ChatInputProps) {
   const [message, setMessage] = useState('');
 
-  const handleSend = () => {
+  const estimate = message.trim() && estimateCredits ? estimateCredits(message.trim()) : null;
+
+  const handleSend = async () => {
     if (message.trim() && !isLoading && !disabled) {
       triggerHaptic();
-      onSend(message.trim());
+      const draft = message.trim();
       setMessage('');
+      if ((await onSend(draft)) === false) {
+        // Unless something new was typed meanwhile
+        setMessage(current => current || draft);
+      }
     }
   };
 
+  const handleStop = () => {
+    triggerHaptic();
+    onStop?.();
+  };
+
+  const canStop = isLoading && !!onStop;
+
   return (
     <KeyboardAvoidingView
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -51,12 +69,17 @@ export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
           <TouchableOpacity
             style={[
               styles.sendButton,
-              (!message.trim() || isLoading || disabled) && styles.sendButtonDisabled,
+              canStop && styles.stopButton,
+              !canStop && (!message.trim() || isLoading || disabled) && styles.sendButtonDisabled,
             ]}
-            onPress={handleSend}
-            disabled={!message.trim() || isLoading || disabled}
+            onPress={canStop ? handleStop : handleSend}
+            disabled={!canStop && (!message.trim() || isLoading || disabled)}
           >
-            {isLoading ? (
+            {canStop ? (
+              <Svg width={16} height={16} viewBox="0 0 24 24" fill="none">
+                <Rect x={4} y={4} width={16} height={16} rx={3} fill="#fff" />
+              </Svg>
+            ) : isLoading ? (
               <ActivityIndicator size="small" color="#fff" />
             ) : (
               <Svg width={20} height={20} viewBox="0 0 24 24" fill="none">
@@ -71,6 +94,12 @@ export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
             )}
           </TouchableOpacity>
         </View>
+
+        {estimate !== null && !isLoading && (
+          <Text style={styles.estimate}>
+            ≈ {estimate} credit{estimate === 1 ? '' : 's'} to send
+          </Text>
+        )}
       </View>
     </KeyboardAvoidingView>
   );
@@ -106,7 +135,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginLeft: 8,
   },
+  stopButton: {
+    backgroundColor: '#ff6b6b',
+  },
   sendButtonDisabled: {
     backgroundColor: '#444',
   },
+  estimate: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 6,
+    marginLeft: 16,
+  },
 });
@@ -1,19 +1,43 @@
 import React from 'react';
-import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { View, Text, StyleSheet, Pressable, ActivityIndicator } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import Markdown from 'react-native-markdown-display';
-import { Message } from '../types';
+import { Message, MessagePart } from '../types';
 import { AI_PROVIDERS } from '../services/ai-providers';
+import { formatCost, formatTokens } from '../services/usage';
+import { ToolCallView } from './ToolCallView';
 
 interface ChatMessageProps {
   message: Message;
+  isStreaming?: boolean;
+  status?: string | null;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+export function ChatMessage({ message, isStreaming, status }: ChatMessageProps) {
   const isUser = message.role === 'user';
   const provider = message.provider ? AI_PROVIDERS[message.provider] : null;
 
+  // Render text and tool activity in the order the agent produced them
+  const renderParts = (parts: MessagePart[]) =>
+    parts.map((part, index) => {
+      if (part.type === 'text') {
+        return (
+          <Markdown key={index} style={markdownStyles}>
+            {part.text}
+          </Markdown>
+        );
+      }
+      if (part.type === 'tool_call') {
+        const result = parts.find(
+          (p): p is Extract<MessagePart, { type: 'tool_result' }> =>
+            p.type === 'tool_result' && p.toolCallId === part.id
+        );
+        return <ToolCallView key={part.id} call={part} result={result} />;
+      }
+      return null;
+    });
+
   const handleLongPress = async () => {
     await Clipboard.setStringAsync(message.content);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -32,8 +56,21 @@ export function ChatMessage({ message }: ChatMessageProps) {
         <View style={[styles.bubble, isUser ? styles.userBubble : styles.assistantBubble]}>
           {isUser ? (
             <Text style={styles.userText}>{message.content}</Text>
+          ) : message.parts && !isStreaming ? (
+            renderParts(message.parts)
+          ) : isStreaming && !message.content ? (
+            !status && <ActivityIndicator size="small" color="#9945FF" />
           ) : (
-            <Markdown style={markdownStyles}>{message.content}</Markdown>
+            <Markdown style={markdownStyles}>
+              {isStreaming && !status ? `${message.content}▍` : message.content}
+            </Markdown>
+          )}
+
+          {isStreaming && status && (
+            <View style={styles.statusRow}>
+              <ActivityIndicator size="small" color="#14F195" />
+              <Text style={styles.statusText}>{status}</Text>
+            </View>
           )}
         </View>
 
@@ -42,6 +79,10 @@ export function ChatMessage({ message }: ChatMessageProps) {
             hour: '2-digit',
             minute: '2-digit',
           })}
+          {message.incomplete && ' • Stopped'}
+          {message.tokens &&
+            ` • ${formatTokens(message.tokens.input)} in / ${formatTokens(message.tokens.output)} out`}
+          {message.cost !== undefined && ` • ${formatCost(message.cost)}`}
         </Text>
       </View>
     </Pressable>
@@ -90,6 +131,16 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#2a2a4e',
   },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusText: {
+    color: '#14F195',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
   userText: {
     color: '#fff',
     fontSize: 16,
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MessagePart } from '../types';
+import { getToolLabel } from '../services/solana-tools';
+import { triggerSelection } from '../utils/haptics';
+import { ToolResultCard, TOOLS_WITH_CARDS } from './ToolResultCard';
+
+type ToolCallPart = Extract<MessagePart, { type: 'tool_call' }>;
+type ToolResultPart = Extract<MessagePart, { type: 'tool_result' }>;
+
+interface ToolCallViewProps {
+  call: ToolCallPart;
+  result?: ToolResultPart;
+}
+
+const formatJson = (value: unknown): string => {
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return JSON.stringify(parsed, null, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+export function ToolCallView({ call, result }: ToolCallViewProps) {
+  // Results with a typed card start open; raw JSON stays tucked away
+  const hasCard = !!result && !result.isError && TOOLS_WITH_CARDS.includes(call.name);
+  const [expanded, setExpanded] = useState(hasCard);
+  const [showRaw, setShowRaw] = useState(false);
+
+  const statusIcon = !result ? '⏹' : result.isError ? '⚠️' : '✓';
+  const hasInput = Object.keys(call.input || {}).length > 0;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => {
+          triggerSelection();
+          setExpanded(prev => !prev);
+        }}
+      >
+        <Text style={styles.icon}>🔧</Text>
+        <Text style={styles.label} numberOfLines={1}>
+          {getToolLabel(call.name)}
+        </Text>
+        <Text style={[styles.status, result?.isError && styles.statusError]}>{statusIcon}</Text>
+        <Text style={styles.chevron}>{expanded ? '▲' : '▼'}</Text>
+      </TouchableOpacity>
+
+      {expanded && hasCard && !showRaw && (
+        <View style={styles.details}>
+          <ToolResultCard name={call.name} content={result!.content} />
+          <TouchableOpacity onPress={() => setShowRaw(true)}>
+            <Text style={styles.rawToggle}>Show raw</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {expanded && (!hasCard || showRaw) && (
+        <View style={styles.details}>
+          <Text style={styles.detailTitle}>{call.name}</Text>
+          {hasInput && <Text style={styles.code}>{formatJson(call.input)}</Text>}
+          {result && (
+            <>
+              <Text style={styles.detailTitle}>Result</Text>
+              <Text style={styles.code} numberOfLines={40}>
+                {formatJson(result.content)}
+              </Text>
+            </>
+          )}
+          {hasCard && (
+            <TouchableOpacity onPress={() => setShowRaw(false)}>
+              <Text style={styles.rawToggle}>Show card</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#0a0a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2a2a4e',
+    marginVertical: 4,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  icon: {
+    fontSize: 12,
+  },
+  label: {
+    flex: 1,
+    color: '#aaa',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  status: {
+    color: '#14F195',
+    fontSize: 13,
+  },
+  statusError: {
+    color: '#ff6b6b',
+  },
+  chevron: {
+    color: '#666',
+    fontSize: 10,
+  },
+  details: {
+    paddingHorizontal: 10,
+    paddingBottom: 10,
+  },
+  detailTitle: {
+    color: '#888',
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  rawToggle: {
+    color: '#9945FF',
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 8,
+  },
+  code: {
+    color: '#14F195',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+});
@@ -0,0 +1,316 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { triggerNotification, NotificationType } from '../utils/haptics';
+
+// Typed views of the JSON returned by solana-tools
+
+interface SolBalanceResult {
+  address: string;
+  balance: number;
+  lamports: number;
+  network: string;
+}
+
+interface RecentTransactionsResult {
+  address: string;
+  count: number;
+  transactions: {
+    signature: string;
+    slot: number;
+    blockTime: number | null;
+    status: 'success' | 'failed';
+    memo: string | null;
+  }[];
+}
+
+interface NFTsResult {
+  address: string;
+  count: number;
+  nfts: {
+    id: string;
+    name: string;
+    symbol?: string;
+    collection?: string;
+    image?: string;
+  }[];
+}
+
+interface StakeAccountsResult {
+  address: string;
+  totalStaked: number;
+  accountCount: number;
+  accounts: {
+    pubkey: string;
+    lamports: number;
+    stake: number;
+    state: 'active' | 'inactive';
+    validator?: string;
+  }[];
+}
+
+// Tools that have a dedicated card; everything else falls back to raw JSON
+export const TOOLS_WITH_CARDS = ['get_sol_balance', 'get_recent_transactions', 'get_nfts', 'get_stake_accounts'];
+
+const shorten = (value: string, chars = 4) =>
+  value.length > chars * 2 + 3 ? `${value.slice(0, chars)}...${value.slice(-chars)}` : value;
+
+function Copyable({ value, chars, style }: { value: string; chars?: number; style?: any }) {
+  const handleCopy = async () => {
+    await Clipboard.setStringAsync(value);
+    triggerNotification(NotificationType.Success);
+  };
+
+  return (
+    <TouchableOpacity onPress={handleCopy} hitSlop={6}>
+      <Text style={[styles.copyable, style]}>{shorten(value, chars)}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function BalanceCard({ data }: { data: SolBalanceResult }) {
+  return (
+    <View style={styles.card}>
+      <Text style={styles.balanceValue}>{data.balance.toLocaleString(undefined, { maximumFractionDigits: 4 })} SOL</Text>
+      <View style={styles.row}>
+        <Copyable value={data.address} chars={6} />
+        <View style={styles.badge}>
+          <Text style={styles.badgeText}>{data.network}</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function TransactionList({ data }: { data: RecentTransactionsResult }) {
+  if (data.transactions.length === 0) {
+    return <Text style={styles.empty}>No recent transactions</Text>;
+  }
+
+  return (
+    <View style={styles.card}>
+      {data.transactions.map((tx) => (
+        <View key={tx.signature} style={styles.listRow}>
+          <View style={styles.listMain}>
+            <Copyable value={tx.signature} chars={8} />
+            <Text style={styles.meta}>
+              {tx.blockTime ? new Date(tx.blockTime * 1000).toLocaleString() : `Slot ${tx.slot}`}
+            </Text>
+            {tx.memo && <Text style={styles.meta} numberOfLines={1}>{tx.memo}</Text>}
+          </View>
+          <View style={[styles.badge, tx.status === 'failed' ? styles.badgeFailed : styles.badgeSuccess]}>
+            <Text style={[styles.badgeText, tx.status === 'failed' ? styles.badgeTextFailed : styles.badgeTextSuccess]}>
+              {tx.status}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function NFTGrid({ data }: { data: NFTsResult }) {
+  if (data.nfts.length === 0) {
+    return <Text style={styles.empty}>No NFTs found</Text>;
+  }
+
+  return (
+    <View style={styles.grid}>
+      {data.nfts.map((nft) => (
+        <View key={nft.id} style={styles.nftTile}>
+          {nft.image ? (
+            <Image source={{ uri: nft.image }} style={styles.nftImage} />
+          ) : (
+            <View style={[styles.nftImage, styles.nftPlaceholder]}>
+              <Text style={styles.nftPlaceholderText}>🖼️</Text>
+            </View>
+          )}
+          <Text style={styles.nftName} numberOfLines={1}>{nft.name}</Text>
+          <Copyable value={nft.id} style={styles.nftId} />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function StakeTable({ data }: { data: StakeAccountsResult }) {
+  return (
+    <View style={styles.card}>
+      <Text style={styles.tableTotal}>
+        {data.totalStaked.toLocaleString(undefined, { maximumFractionDigits: 4 })} SOL staked •{' '}
+        {data.accountCount} account{data.accountCount !== 1 ? 's' : ''}
+      </Text>
+      <View style={[styles.listRow, styles.tableHeader]}>
+        <Text style={[styles.tableCell, styles.tableHeaderText]}>Account</Text>
+        <Text style={[styles.tableCell, styles.tableHeaderText]}>Validator</Text>
+        <Text style={[styles.tableCellRight, styles.tableHeaderText]}>SOL</Text>
+      </View>
+      {data.accounts.map((account) => (
+        <View key={account.pubkey} style={styles.listRow}>
+          <View style={styles.tableCell}>
+            <Copyable value={account.pubkey} />
+            <Text style={[styles.meta, account.state === 'active' && styles.activeText]}>{account.state}</Text>
+          </View>
+          <View style={styles.tableCell}>
+            {account.validator ? <Copyable value={account.validator} /> : <Text style={styles.meta}>—</Text>}
+          </View>
+          <Text style={[styles.tableCellRight, styles.stakeAmount]}>
+            {account.stake.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+interface ToolResultCardProps {
+  name: string;
+  content: string;
+}
+
+export function ToolResultCard({ name, content }: ToolResultCardProps) {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  if (!data || data.error) return null;
+
+  switch (name) {
+    case 'get_sol_balance':
+      return <BalanceCard data={data} />;
+    case 'get_recent_transactions':
+      return <TransactionList data={data} />;
+    case 'get_nfts':
+      return <NFTGrid data={data} />;
+    case 'get_stake_accounts':
+      return <StakeTable data={data} />;
+    default:
+      return null;
+  }
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  copyable: {
+    color: '#14F195',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  balanceValue: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  badge: {
+    backgroundColor: '#2a2a4e',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  badgeSuccess: {
+    backgroundColor: 'rgba(20, 241, 149, 0.15)',
+  },
+  badgeFailed: {
+    backgroundColor: 'rgba(255, 107, 107, 0.15)',
+  },
+  badgeText: {
+    color: '#aaa',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  badgeTextSuccess: {
+    color: '#14F195',
+  },
+  badgeTextFailed: {
+    color: '#ff6b6b',
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    gap: 8,
+  },
+  listMain: {
+    flex: 1,
+  },
+  meta: {
+    color: '#666',
+    fontSize: 11,
+    marginTop: 2,
+  },
+  empty: {
+    color: '#888',
+    fontSize: 13,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  nftTile: {
+    width: '30%',
+  },
+  nftImage: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+    backgroundColor: '#1a1a2e',
+  },
+  nftPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  nftPlaceholderText: {
+    fontSize: 20,
+  },
+  nftName: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  nftId: {
+    fontSize: 10,
+  },
+  tableTotal: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  tableHeader: {
+    paddingVertical: 4,
+  },
+  tableHeaderText: {
+    color: '#888',
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  tableCell: {
+    flex: 1,
+  },
+  tableCellRight: {
+    width: 64,
+    textAlign: 'right',
+  },
+  stakeAmount: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  activeText: {
+    color: '#14F195',
+  },
+});
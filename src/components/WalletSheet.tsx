@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -10,10 +10,36 @@ import {
   Alert,
   ActivityIndicator,
   ScrollView,
+  Image,
 } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import { useSolana } from '../providers/SolanaProvider';
+import { useNetwork } from '../providers/NetworkProvider';
+import { formatBaseUnits, parseAmount } from '../utils/amounts';
+import { SOL_MINT, TokenPrice, getPrices, valuePortfolio } from '../services/prices';
+import { BuiltTransaction, PriorityLevel } from '../services/transaction-builder';
+import { TransactionPreview } from '../services/transaction-preview';
+import { shortMint } from '../services/token-metadata';
+
+const SOL_DECIMALS = 9;
+
+const PRIORITY_LEVELS: { level: PriorityLevel; label: string }[] = [
+  { level: 'low', label: 'Low' },
+  { level: 'medium', label: 'Medium' },
+  { level: 'high', label: 'High' },
+];
+
+const formatUsd = (value: number): string => `$${Math.abs(value).toFixed(2)}`;
+
+// Signed decimal text for a raw balance change
+const formatDelta = (delta: bigint, decimals: number): string =>
+  `${delta < 0n ? '-' : '+'}${formatBaseUnits(delta < 0n ? -delta : delta, decimals)}`;
+
+interface Review {
+  built: BuiltTransaction;
+  preview: TransactionPreview;
+}
 
 interface WalletSheetProps {
   visible: boolean;
@@ -21,11 +47,48 @@ interface WalletSheetProps {
 }
 
 export function WalletSheet({ visible, onClose }: WalletSheetProps) {
-  const { wallet, disconnect, refreshBalance, sendSol } = useSolana();
+  const { wallet, disconnect, refreshBalance, prepareSol, prepareToken, previewTransaction, sendPrepared } = useSolana();
+  const { chain, clusterLabel } = useNetwork();
   const [showSend, setShowSend] = useState(false);
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState('');
   const [sending, setSending] = useState(false);
+  // Token to send by mint; null sends SOL
+  const [sendMint, setSendMint] = useState<string | null>(null);
+  const [priority, setPriority] = useState<PriorityLevel>('medium');
+  // Simulated transaction awaiting confirmation
+  const [review, setReview] = useState<Review | null>(null);
+  const [showLogs, setShowLogs] = useState(false);
+  const [prices, setPrices] = useState<Record<string, TokenPrice>>({});
+  // Jupiter prices mainnet mints; tokens on other clusters have no market value
+  const priced = chain === 'mainnet';
+
+  // Prices are cached for a minute, so reopening the sheet doesn't refetch them
+  useEffect(() => {
+    if (!priced) {
+      setPrices({});
+      return;
+    }
+    if (!visible || !wallet.connected) return;
+    let cancelled = false;
+    getPrices([SOL_MINT, ...wallet.tokens.map(t => t.mint)]).then(result => {
+      if (!cancelled) setPrices(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [priced, visible, wallet.connected, wallet.tokens, wallet.balance]);
+
+  const portfolio = useMemo(() => valuePortfolio([
+    { mint: SOL_MINT, amount: wallet.balance },
+    ...wallet.tokens.map(t => ({ mint: t.mint, amount: Number(t.uiBalance) })),
+  ], prices), [wallet.balance, wallet.tokens, prices]);
+  const solPrice = prices[SOL_MINT];
+
+  const sendTokenBalance = wallet.tokens.find(t => t.mint === sendMint) ?? null;
+  const sendSymbol = sendTokenBalance ? sendTokenBalance.symbol : 'SOL';
+  const sendDecimals = sendTokenBalance ? sendTokenBalance.decimals : SOL_DECIMALS;
+  const available = sendTokenBalance ? sendTokenBalance.uiBalance : wallet.balance.toFixed(4);
 
   const handleCopyAddress = async () => {
     if (wallet.publicKey) {
@@ -34,30 +97,73 @@ export function WalletSheet({ visible, onClose }: WalletSheetProps) {
     }
   };
 
-  const handleSend = async () => {
+  // Who an account belongs to, as far as this transfer is concerned
+  const accountLabel = (address: string): string => {
+    if (address === wallet.publicKey) return 'Your wallet';
+    if (address === recipient.trim()) return 'Recipient';
+    return shortMint(address);
+  };
+
+  const tokenSymbol = (mint: string): string =>
+    wallet.tokens.find(t => t.mint === mint)?.symbol ?? shortMint(mint);
+
+  const resetSend = () => {
+    setShowSend(false);
+    setRecipient('');
+    setAmount('');
+    setSendMint(null);
+    setPriority('medium');
+    setReview(null);
+    setShowLogs(false);
+  };
+
+  const handleReview = async () => {
     if (!recipient || !amount) {
       Alert.alert('Error', 'Please enter recipient and amount');
       return;
     }
 
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) {
+    // Parsed at the token's precision so no decimal place is lost or rounded
+    let rawAmount: bigint;
+    try {
+      rawAmount = parseAmount(amount, sendDecimals);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+      return;
+    }
+    if (rawAmount <= 0n) {
       Alert.alert('Error', 'Invalid amount');
       return;
     }
 
-    if (amountNum > wallet.balance) {
+    const held = sendTokenBalance ? BigInt(sendTokenBalance.balance) : BigInt(Math.round(wallet.balance * 10 ** SOL_DECIMALS));
+    if (rawAmount > held) {
       Alert.alert('Error', 'Insufficient balance');
       return;
     }
 
     setSending(true);
     try {
-      const signature = await sendSol(recipient, amountNum);
+      const built = sendMint
+        ? await prepareToken(sendMint, recipient.trim(), amount, { priority })
+        : await prepareSol(recipient.trim(), amount, { priority });
+      setReview({ built, preview: await previewTransaction(built) });
+      setShowLogs(false);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to prepare transaction');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!review?.preview.ok) return;
+
+    setSending(true);
+    try {
+      const signature = await sendPrepared(review.built);
       Alert.alert('Success', `Transaction sent!\n\nSignature: ${signature.slice(0, 20)}...`);
-      setShowSend(false);
-      setRecipient('');
-      setAmount('');
+      resetSend();
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to send transaction');
     } finally {
@@ -94,10 +200,136 @@ export function WalletSheet({ visible, onClose }: WalletSheetProps) {
         <Pressable style={styles.sheet} onPress={(e) => e.stopPropagation()}>
           <View style={styles.handle} />
 
-          {showSend ? (
-            // Send SOL Form
+          {showSend && review ? (
+            // Review the simulated transaction before the wallet signs it
+            <ScrollView>
+              <Text style={styles.title}>Review Transaction</Text>
+
+              <View style={[styles.simulationStatus, !review.preview.ok && styles.simulationStatusFailed]}>
+                <Text style={[styles.simulationStatusText, !review.preview.ok && styles.simulationStatusTextFailed]}>
+                  {review.preview.ok ? 'Simulation succeeded' : 'This transaction would fail'}
+                </Text>
+                {review.preview.error && (
+                  <Text style={styles.simulationError}>{review.preview.error}</Text>
+                )}
+              </View>
+
+              {review.preview.ok && (
+                <View style={styles.tokensSection}>
+                  <Text style={styles.sectionTitle}>Balance Changes</Text>
+                  {review.preview.balanceChanges.map(change => (
+                    <View key={`sol-${change.address}`} style={styles.reviewRow}>
+                      <Text style={styles.reviewLabel}>{accountLabel(change.address)}</Text>
+                      <Text style={[styles.reviewDelta, change.after < change.before && styles.reviewDeltaOut]}>
+                        {formatDelta(BigInt(change.after - change.before), SOL_DECIMALS)} SOL
+                      </Text>
+                    </View>
+                  ))}
+                  {review.preview.tokenChanges.map(change => (
+                    <View key={`token-${change.account}`} style={styles.reviewRow}>
+                      <Text style={styles.reviewLabel}>{accountLabel(change.owner)}</Text>
+                      <Text style={[styles.reviewDelta, change.after < change.before && styles.reviewDeltaOut]}>
+                        {formatDelta(change.after - change.before, change.decimals)} {tokenSymbol(change.mint)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <View style={styles.tokensSection}>
+                <Text style={styles.sectionTitle}>Cost</Text>
+                <View style={styles.reviewRow}>
+                  <Text style={styles.reviewLabel}>Network fee</Text>
+                  <Text style={styles.reviewValue}>
+                    {review.preview.fee === null
+                      ? 'Unavailable'
+                      : `${formatBaseUnits(BigInt(review.preview.fee), SOL_DECIMALS)} SOL`}
+                  </Text>
+                </View>
+                <View style={styles.reviewRow}>
+                  <Text style={styles.reviewLabel}>Compute units</Text>
+                  <Text style={styles.reviewValue}>
+                    {review.preview.computeUnits !== undefined
+                      ? `${review.preview.computeUnits.toLocaleString()} / ${review.preview.computeUnitLimit.toLocaleString()}`
+                      : `Limit ${review.preview.computeUnitLimit.toLocaleString()}`}
+                  </Text>
+                </View>
+              </View>
+
+              {review.preview.logs.length > 0 && (
+                <View style={styles.tokensSection}>
+                  <TouchableOpacity onPress={() => setShowLogs(!showLogs)}>
+                    <Text style={styles.logsToggle}>
+                      {showLogs ? 'Hide' : 'Show'} program logs ({review.preview.logs.length})
+                    </Text>
+                  </TouchableOpacity>
+                  {showLogs && (
+                    <View style={styles.logs}>
+                      {review.preview.logs.map((line, i) => (
+                        <Text key={i} style={styles.logLine}>{line}</Text>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              )}
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={() => setReview(null)}
+                  disabled={sending}
+                >
+                  <Text style={styles.cancelButtonText}>Back</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[styles.sendButton, (sending || !review.preview.ok) && styles.buttonDisabled]}
+                  onPress={handleConfirm}
+                  disabled={sending || !review.preview.ok}
+                >
+                  {sending ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.sendButtonText}>Confirm</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          ) : showSend ? (
+            // Send Form
             <View>
-              <Text style={styles.title}>Send SOL</Text>
+              <Text style={styles.title}>Send {sendSymbol}</Text>
+
+              {wallet.tokens.length > 0 && (
+                <>
+                  <Text style={styles.label}>Asset</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.assetPicker}>
+                    <TouchableOpacity
+                      style={[styles.assetChip, !sendMint && styles.assetChipActive]}
+                      onPress={() => {
+                        setSendMint(null);
+                        setAmount('');
+                      }}
+                    >
+                      <Text style={[styles.assetChipText, !sendMint && styles.assetChipTextActive]}>SOL</Text>
+                    </TouchableOpacity>
+                    {wallet.tokens.map(token => (
+                      <TouchableOpacity
+                        key={token.mint}
+                        style={[styles.assetChip, sendMint === token.mint && styles.assetChipActive]}
+                        onPress={() => {
+                          setSendMint(token.mint);
+                          setAmount('');
+                        }}
+                      >
+                        <Text style={[styles.assetChipText, sendMint === token.mint && styles.assetChipTextActive]}>
+                          {token.symbol}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </>
+              )}
 
               <Text style={styles.label}>Recipient Address</Text>
               <TextInput
@@ -110,7 +342,7 @@ export function WalletSheet({ visible, onClose }: WalletSheetProps) {
                 autoCorrect={false}
               />
 
-              <Text style={styles.label}>Amount (SOL)</Text>
+              <Text style={styles.label}>Amount ({sendSymbol})</Text>
               <TextInput
                 style={styles.input}
                 placeholder="0.00"
@@ -121,26 +353,45 @@ export function WalletSheet({ visible, onClose }: WalletSheetProps) {
               />
 
               <Text style={styles.availableBalance}>
-                Available: {wallet.balance.toFixed(4)} SOL
+                Available: {available} {sendSymbol}
               </Text>
 
+              {/* Priority fee, priced from what recent transactions paid */}
+              <Text style={styles.label}>Priority</Text>
+              <View style={styles.priorityPicker}>
+                {PRIORITY_LEVELS.map(({ level, label }) => (
+                  <TouchableOpacity
+                    key={level}
+                    style={[styles.assetChip, priority === level && styles.assetChipActive]}
+                    onPress={() => setPriority(level)}
+                  >
+                    <Text style={[styles.assetChipText, priority === level && styles.assetChipTextActive]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
               <View style={styles.buttonRow}>
                 <TouchableOpacity
                   style={styles.cancelButton}
-                  onPress={() => setShowSend(false)}
+                  onPress={() => {
+                    setShowSend(false);
+                    setSendMint(null);
+                  }}
                 >
                   <Text style={styles.cancelButtonText}>Cancel</Text>
                 </TouchableOpacity>
 
                 <TouchableOpacity
                   style={[styles.sendButton, sending && styles.buttonDisabled]}
-                  onPress={handleSend}
+                  onPress={handleReview}
                   disabled={sending}
                 >
                   {sending ? (
                     <ActivityIndicator size="small" color="#fff" />
                   ) : (
-                    <Text style={styles.sendButtonText}>Send</Text>
+                    <Text style={styles.sendButtonText}>Review</Text>
                   )}
                 </TouchableOpacity>
               </View>
@@ -155,8 +406,33 @@ export function WalletSheet({ visible, onClose }: WalletSheetProps) {
                 <Text style={styles.balanceLabel}>SOL Balance</Text>
                 <Text style={styles.balanceValue}>{wallet.balance.toFixed(4)}</Text>
                 <Text style={styles.balanceUsd}>
-                  ≈ ${(wallet.balance * 180).toFixed(2)} USD
+                  {!priced
+                    ? `No USD value on ${clusterLabel}`
+                    : solPrice ? `≈ ${formatUsd(wallet.balance * solPrice.usd)} USD` : 'USD price unavailable'}
                 </Text>
+
+                {portfolio.asOf !== undefined && (
+                  <View style={styles.portfolio}>
+                    <Text style={styles.balanceLabel}>Total Portfolio</Text>
+                    <Text style={styles.portfolioValue}>{formatUsd(portfolio.totalUsd)}</Text>
+                    {portfolio.change24hUsd !== undefined && (
+                      <Text style={[styles.portfolioChange, portfolio.change24hUsd < 0 && styles.portfolioChangeDown]}>
+                        {portfolio.change24hUsd < 0 ? '-' : '+'}{formatUsd(portfolio.change24hUsd)}
+                        {portfolio.change24hPercent !== undefined && ` (${portfolio.change24hPercent.toFixed(2)}%)`} 24h
+                      </Text>
+                    )}
+                    {portfolio.stale && (
+                      <Text style={styles.portfolioNote}>
+                        Prices as of {new Date(portfolio.asOf).toLocaleTimeString()}
+                      </Text>
+                    )}
+                    {portfolio.unpriced > 0 && (
+                      <Text style={styles.portfolioNote}>
+                        {portfolio.unpriced} token{portfolio.unpriced === 1 ? '' : 's'} without a price not included
+                      </Text>
+                    )}
+                  </View>
+                )}
               </View>
 
               {/* Address */}
@@ -174,8 +450,25 @@ export function WalletSheet({ visible, onClose }: WalletSheetProps) {
                   <Text style={styles.sectionTitle}>Tokens</Text>
                   {wallet.tokens.slice(0, 5).map((token, index) => (
                     <View key={index} style={styles.tokenRow}>
-                      <Text style={styles.tokenSymbol}>{token.symbol}</Text>
-                      <Text style={styles.tokenBalance}>{token.uiBalance}</Text>
+                      <View style={styles.tokenIdentity}>
+                        {token.logoUri ? (
+                          <Image source={{ uri: token.logoUri }} style={styles.tokenLogo} />
+                        ) : (
+                          <View style={[styles.tokenLogo, styles.tokenLogoPlaceholder]} />
+                        )}
+                        <View>
+                          <Text style={styles.tokenSymbol}>{token.symbol}</Text>
+                          <Text style={styles.tokenName} numberOfLines={1}>{token.name}</Text>
+                        </View>
+                      </View>
+                      <View style={styles.tokenAmounts}>
+                        <Text style={styles.tokenBalance}>{token.uiBalance}</Text>
+                        {prices[token.mint] && (
+                          <Text style={styles.tokenName}>
+                            {formatUsd(Number(token.uiBalance) * prices[token.mint].usd)}
+                          </Text>
+                        )}
+                      </View>
                     </View>
                   ))}
                 </View>
@@ -187,7 +480,7 @@ export function WalletSheet({ visible, onClose }: WalletSheetProps) {
                   style={styles.actionButton}
                   onPress={() => setShowSend(true)}
                 >
-                  <Text style={styles.actionButtonText}>Send SOL</Text>
+                  <Text style={styles.actionButtonText}>Send</Text>
                 </TouchableOpacity>
 
                 <TouchableOpacity
@@ -266,6 +559,32 @@ const styles = StyleSheet.create({
     color: '#14F195',
     fontSize: 16,
   },
+  portfolio: {
+    alignItems: 'center',
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#1a1a2e',
+    alignSelf: 'stretch',
+  },
+  portfolioValue: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  portfolioChange: {
+    color: '#14F195',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  portfolioChangeDown: {
+    color: '#ff6b6b',
+  },
+  portfolioNote: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 4,
+  },
   addressCard: {
     backgroundColor: '#2a2a4e',
     borderRadius: 12,
@@ -301,11 +620,33 @@ const styles = StyleSheet.create({
   tokenRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
+    alignItems: 'center',
     backgroundColor: '#2a2a4e',
     padding: 12,
     borderRadius: 8,
     marginBottom: 8,
   },
+  tokenIdentity: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    flexShrink: 1,
+  },
+  tokenLogo: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  tokenLogoPlaceholder: {
+    backgroundColor: '#1a1a2e',
+  },
+  tokenAmounts: {
+    alignItems: 'flex-end',
+  },
+  tokenName: {
+    color: '#666',
+    fontSize: 12,
+  },
   tokenSymbol: {
     color: '#fff',
     fontSize: 14,
@@ -341,6 +682,29 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  assetPicker: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  assetChip: {
+    backgroundColor: '#2a2a4e',
+    borderRadius: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: '#2a2a4e',
+  },
+  assetChipActive: {
+    borderColor: '#9945FF',
+  },
+  assetChipText: {
+    color: '#888',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  assetChipTextActive: {
+    color: '#fff',
+  },
   label: {
     color: '#888',
     fontSize: 14,
@@ -359,6 +723,75 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginBottom: 24,
   },
+  priorityPicker: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 24,
+  },
+  simulationStatus: {
+    backgroundColor: '#2a2a4e',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#14F195',
+  },
+  simulationStatusFailed: {
+    borderColor: '#ff6b6b',
+  },
+  simulationStatusText: {
+    color: '#14F195',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  simulationStatusTextFailed: {
+    color: '#ff6b6b',
+  },
+  simulationError: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#2a2a4e',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  reviewLabel: {
+    color: '#888',
+    fontSize: 14,
+  },
+  reviewValue: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  reviewDelta: {
+    color: '#14F195',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  reviewDeltaOut: {
+    color: '#ff6b6b',
+  },
+  logsToggle: {
+    color: '#9945FF',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  logs: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 8,
+    padding: 12,
+  },
+  logLine: {
+    color: '#888',
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
   buttonRow: {
     flexDirection: 'row',
     gap: 12,
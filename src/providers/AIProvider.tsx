@@ -1,9 +1,20 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
-import { AIProvider as AIProviderType, Message, Conversation, AppSettings, ChatContext } from '../types';
-import { getAIService, AI_PROVIDERS, SOLANA_SYSTEM_PROMPT } from '../services/ai-providers';
+import React, { createContext, useContext, useState, useCallback, useRef, ReactNode, useEffect } from 'react';
+import { AIProvider as AIProviderType, Message, MessagePart, Conversation, AppSettings, ChatContext, TokenUsage } from '../types';
+import { getAIService, getModelPricing, AI_PROVIDERS, SOLANA_SYSTEM_PROMPT } from '../services/ai-providers';
+import { isRelayConfigured } from '../services/relay';
+import { addUsage, calculateCost } from '../services/usage';
+import { ESTIMATED_REPLY_TOKENS, calculateCreditCost, estimateCreditCost, estimateTokens, validateModelPricing } from '../services/credit-pricing';
+import { SpendTotals, SpendUnit, checkSpendingLimits, startOfToday } from '../services/spending-limits';
+import { confirmAsync } from '../utils/confirm';
+import { throwIfAborted } from '../utils/abort';
 import { chatWithTools } from '../services/ai-with-tools';
+import { getToolLabel } from '../services/solana-tools';
 import { useSolana } from './SolanaProvider';
+import { useCredits } from './CreditsProvider';
+import { conversationRepository } from '../services/conversation-repository';
+import { DEFAULT_SETTINGS, APP_SETTINGS_SCHEMA, LEGACY_CONVERSATIONS_SCHEMA } from '../services/persisted-state';
 import { storage } from '../utils/storage';
+import { loadPersisted, readPersisted, savePersisted } from '../utils/persistence';
 
 interface AIContextType {
   // State
@@ -12,84 +23,124 @@ interface AIContextType {
   conversations: Conversation[];
   currentConversation: Conversation | null;
   isLoading: boolean;
+  streamingMessageId: string | null;
+  toolStatus: string | null;
   settings: AppSettings;
 
   // Actions
   setProvider: (provider: AIProviderType) => void;
   setModel: (model: string) => void;
-  sendMessage: (content: string) => Promise<void>;
+  // Resolves false when the message wasn't sent because the user declined (or stopped at) the spending limit prompt
+  sendMessage: (content: string) => Promise<boolean>;
+  stopGeneration: () => void;
   createNewConversation: () => void;
   selectConversation: (id: string) => void;
   deleteConversation: (id: string) => void;
   updateApiKey: (provider: AIProviderType, key: string) => Promise<void>;
   updateSettings: (settings: Partial<AppSettings>) => Promise<void>;
   hasApiKey: (provider: AIProviderType) => boolean;
+  // True when requests to the provider are paid for with credits instead of the user's key
+  usesCredits: (provider: AIProviderType) => boolean;
+  // Expected credits for sending the message next, or null when the user's own key pays
+  estimateCredits: (content: string) => number | null;
+  // Set when spending nears a limit
+  spendingWarning: string | null;
+  dismissSpendingWarning: () => void;
 }
 
 const AIContext = createContext<AIContextType | null>(null);
 
-const DEFAULT_SETTINGS: AppSettings = {
-  apiKeys: {},
-  defaultProvider: 'claude',
-  theme: 'dark',
-  hapticFeedback: true,
-  streamResponses: true,
-  useTools: true, // Enable Solana blockchain tools
-};
-
 export function AIProvider({ children }: { children: ReactNode }) {
   const { wallet } = useSolana();
+  const { holdCredits, settleCredits, refundCredits, getRelayCredential, getSpentCredits } = useCredits();
 
   const [currentProvider, setCurrentProvider] = useState<AIProviderType>('claude');
   const [currentModel, setCurrentModel] = useState('claude-sonnet-4-20250514');
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [toolStatus, setToolStatus] = useState<string | null>(null);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [spendingWarning, setSpendingWarning] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Load settings on mount
   useEffect(() => {
     loadSettings();
   }, []);
 
+  // A model added without pricing fails here in dev builds, long before anyone pays for it
+  useEffect(() => {
+    if (__DEV__) validateModelPricing();
+  }, []);
+
   const loadSettings = async () => {
     try {
-      const savedSettings = await storage.getItem('appSettings');
-      if (savedSettings) {
-        const parsed = JSON.parse(savedSettings);
-        setSettings(parsed);
-        if (parsed.defaultProvider) {
-          setCurrentProvider(parsed.defaultProvider);
-          const providerConfig = AI_PROVIDERS[parsed.defaultProvider];
-          if (providerConfig.models.length > 0) {
-            setCurrentModel(providerConfig.models[0].id);
-          }
-        }
+      const { apiKeys: legacyKeys, ...saved } = await loadPersisted(APP_SETTINGS_SCHEMA);
+      const savedKeys = await loadApiKeys();
+
+      // Older builds stored API keys inside appSettings; move them back into secure storage
+      const apiKeys = savedKeys ?? legacyKeys ?? {};
+      if (!savedKeys && legacyKeys) {
+        await saveSettings({ ...saved, apiKeys });
       }
 
-      // Load conversations
-      const savedConvos = await storage.getItem('conversations');
-      if (savedConvos) {
-        setConversations(JSON.parse(savedConvos));
+      setSettings({ ...saved, apiKeys });
+      setCurrentProvider(saved.defaultProvider);
+      const providerConfig = AI_PROVIDERS[saved.defaultProvider];
+      if (providerConfig.models.length > 0) {
+        setCurrentModel(providerConfig.models[0].id);
       }
+
+      await loadConversations();
     } catch (error) {
       console.error('Error loading settings:', error);
     }
   };
 
-  const saveSettings = async (newSettings: AppSettings) => {
+  const loadApiKeys = async (): Promise<AppSettings['apiKeys'] | null> => {
+    const saved = await storage.getItem('apiKeys');
+    if (!saved) return null;
+    try {
+      const parsed = JSON.parse(saved);
+      return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+      // Not quarantined: that would copy secrets out of secure storage
+      console.warn('Ignoring unreadable API keys');
+      return null;
+    }
+  };
+
+  const loadConversations = async () => {
+    // Import history that older builds kept as a single SecureStore entry
+    const legacy = await readPersisted(LEGACY_CONVERSATIONS_SCHEMA);
+    if (legacy.data.length > 0) {
+      await conversationRepository.importConversations(legacy.data);
+    }
+    // Kept while anything in it couldn't be quarantined, so nothing is lost; tried again next launch
+    if (legacy.preserved) {
+      await storage.deleteItem(LEGACY_CONVERSATIONS_SCHEMA.key);
+    }
+
+    setConversations(await conversationRepository.loadConversations());
+  };
+
+  // API keys stay in secure storage; everything else is plain app data
+  const saveSettings = async ({ apiKeys, ...rest }: AppSettings) => {
     try {
-      await storage.setItem('appSettings', JSON.stringify(newSettings));
+      await storage.setItem('apiKeys', JSON.stringify(apiKeys));
+      await savePersisted(APP_SETTINGS_SCHEMA, rest);
     } catch (error) {
       console.error('Error saving settings:', error);
     }
   };
 
-  const saveConversations = async (convos: Conversation[]) => {
+  const saveMessages = async (convo: Conversation, messages: Message[]) => {
     try {
-      await storage.setItem('conversations', JSON.stringify(convos));
+      await conversationRepository.saveMessages(convo, messages);
     } catch (error) {
-      console.error('Error saving conversations:', error);
+      console.error('Error saving conversation:', error);
     }
   };
 
@@ -109,6 +160,10 @@ export function AIProvider({ children }: { children: ReactNode }) {
     return !!settings.apiKeys[provider];
   }, [settings.apiKeys]);
 
+  const usesCredits = useCallback((provider: AIProviderType): boolean => {
+    return !settings.apiKeys[provider] && isRelayConfigured();
+  }, [settings.apiKeys]);
+
   const createNewConversation = useCallback(() => {
     const newConvo: Conversation = {
       id: Date.now().toString(),
@@ -132,9 +187,10 @@ export function AIProvider({ children }: { children: ReactNode }) {
   }, [conversations]);
 
   const deleteConversation = useCallback((id: string) => {
-    const updated = conversations.filter(c => c.id !== id);
-    setConversations(updated);
-    saveConversations(updated);
+    setConversations(conversations.filter(c => c.id !== id));
+    conversationRepository.deleteConversation(id).catch(error => {
+      console.error('Error deleting conversation:', error);
+    });
 
     if (currentConversation?.id === id) {
       setCurrentConversation(null);
@@ -152,37 +208,180 @@ export function AIProvider({ children }: { children: ReactNode }) {
 - Tokens: ${wallet.tokens.length} SPL tokens`;
   };
 
-  const sendMessage = useCallback(async (content: string) => {
-    const apiKey = settings.apiKeys[currentProvider];
-    if (!apiKey) {
+  // The whole conversation is resent with each message, so it all counts toward the input
+  // Replies with tool calls are resent as their parts, tool inputs and results included, so those
+  // are counted as serialized rather than just the reply text
+  const estimatePromptTokens = (content: string): number =>
+    estimateTokens(
+      SOLANA_SYSTEM_PROMPT + buildWalletContext() +
+      (currentConversation?.messages || []).map(m => (m.parts?.length ? JSON.stringify(m.parts) : m.content)).join('') +
+      content
+    );
+
+  const estimateCredits = useCallback((content: string): number | null => {
+    if (!usesCredits(currentProvider)) return null;
+    return estimateCreditCost(currentProvider, currentModel, estimatePromptTokens(content));
+  }, [usesCredits, currentProvider, currentModel, currentConversation, wallet]);
+
+  // Spend today and in the conversation, plus the request in flight. Credit spend comes from the
+  // ledger (leaving out the request's own hold); USD spend from the costs of replies paid with the
+  // user's own keys, at provider prices.
+  const getSpendTotals = (unit: SpendUnit, convo: Conversation, inFlight: number, holdId: string | null): SpendTotals => {
+    const since = startOfToday();
+    if (unit === 'credits') {
+      const excluding = holdId ?? undefined;
+      return {
+        daily: getSpentCredits({ since, excluding }) + inFlight,
+        conversation: getSpentCredits({ conversationId: convo.id, excluding }) + inFlight,
+      };
+    }
+
+    const replyCost = (messages: Message[], from = 0) =>
+      messages.reduce((total, m) => total + (m.timestamp >= from && !m.paidWithCredits ? m.cost || 0 : 0), 0);
+    const others = conversations.filter(c => c.id !== convo.id);
+    return {
+      daily: others.reduce((total, c) => total + replyCost(c.messages, since), replyCost(convo.messages, since)) + inFlight,
+      conversation: replyCost(convo.messages) + inFlight,
+    };
+  };
+
+  const dismissSpendingWarning = useCallback(() => setSpendingWarning(null), []);
+
+  const updateStreamingMessage = (id: string, content: string) => {
+    setCurrentConversation(prev => prev && {
+      ...prev,
+      messages: prev.messages.map(m => (m.id === id ? { ...m, content } : m)),
+    });
+  };
+
+  const sendMessage = useCallback(async (content: string): Promise<boolean> => {
+    // Without their own key, the user pays with credits through the relay
+    const userKey = settings.apiKeys[currentProvider];
+    if (!userKey && !isRelayConfigured()) {
       throw new Error(`Please add your ${AI_PROVIDERS[currentProvider].name} API key in settings`);
     }
+    const viaRelay = !userKey;
+
+    // Create or update conversation
+    const convo: Conversation = currentConversation ?? {
+      id: Date.now().toString(),
+      title: content.slice(0, 50) + (content.length > 50 ? '...' : ''),
+      messages: [],
+      provider: currentProvider,
+      model: currentModel,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
 
+    const pricing = getModelPricing(currentProvider, currentModel);
+    const promptTokens = estimatePromptTokens(content);
+    const unit: SpendUnit = viaRelay ? 'credits' : 'usd';
+
+    // Past a cap the user is asked once per reply; after agreeing, the reply runs to completion
+    let overLimitApproved = false;
+    const checkLimits = async (inFlight: number, holdId: string | null): Promise<boolean> => {
+      const status = checkSpendingLimits(settings.spendingLimits, unit, getSpendTotals(unit, convo, inFlight, holdId));
+      setSpendingWarning(status.level === 'warning' ? status.message : null);
+      if (status.level !== 'exceeded' || overLimitApproved) return true;
+      overLimitApproved = await confirmAsync('Spending Limit Reached', `${status.message} Continue anyway?`);
+      return overLimitApproved;
+    };
+
+    const requestEstimate = viaRelay
+      ? estimateCreditCost(currentProvider, currentModel, promptTokens)
+      : calculateCost({ input: promptTokens, output: ESTIMATED_REPLY_TOKENS }, pricing) ?? 0;
+
+    // Busy from here, so another send can't start while the limit prompt is open
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
 
-    try {
-      // Create or update conversation
-      let convo = currentConversation;
-      if (!convo) {
-        convo = {
-          id: Date.now().toString(),
-          title: content.slice(0, 50) + (content.length > 50 ? '...' : ''),
-          messages: [],
-          provider: currentProvider,
-          model: currentModel,
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-        };
-      }
+    const endRequest = () => {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+      setStreamingMessageId(null);
+      setToolStatus(null);
+    };
 
-      // Add user message
-      const userMessage: Message = {
-        id: Date.now().toString(),
-        role: 'user',
-        content,
-        timestamp: Date.now(),
+    // Declined, or stopped while being asked: nothing was sent
+    if (!(await checkLimits(requestEstimate, null)) || controller.signal.aborted) {
+      endRequest();
+      return false;
+    }
+
+    // Add user message
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+    };
+
+    const assistantId = (Date.now() + 1).toString();
+
+    // Text received so far, kept if the user stops generation
+    let streamed = '';
+    // Parts of finished rounds, and text of the round in progress, kept on a stop as well
+    const completedParts: MessagePart[] = [];
+    let roundText = '';
+    // Tokens reported so far, including rounds that finished before a stop
+    let usage: TokenUsage | undefined;
+    let stoppedAtLimit = false;
+    // Agent rounds that ran tools, for credit metering
+    const toolRounds = new Set<number>();
+
+    const saveReply = async (assistantMessage: Message | null) => {
+      const newMessages = assistantMessage ? [userMessage, assistantMessage] : [userMessage];
+
+      // Update conversation
+      const updatedConvo: Conversation = {
+        ...convo,
+        messages: [...convo.messages, ...newMessages],
+        updatedAt: Date.now(),
       };
 
+      setCurrentConversation(updatedConvo);
+
+      // Update conversations list
+      const existingIndex = conversations.findIndex(c => c.id === updatedConvo.id);
+      let updatedConvos: Conversation[];
+
+      if (existingIndex >= 0) {
+        updatedConvos = [...conversations];
+        updatedConvos[existingIndex] = updatedConvo;
+      } else {
+        updatedConvos = [updatedConvo, ...conversations];
+      }
+
+      setConversations(updatedConvos);
+      // Only the new rows are written
+      await saveMessages(updatedConvo, newMessages);
+    };
+
+    // Stop works from here on, including while credits are held and the credential fetched
+    let holdId: string | null = null;
+    let apiKey: string;
+    try {
+      holdId = viaRelay
+        ? await holdCredits(currentProvider, currentModel, promptTokens, convo.id)
+        : null;
+      throwIfAborted(controller.signal);
+      apiKey = userKey || await getRelayCredential(holdId!);
+      throwIfAborted(controller.signal);
+    } catch (error) {
+      if (holdId) {
+        await refundCredits(holdId);
+      }
+      endRequest();
+      if (controller.signal.aborted) {
+        // Nothing was sent, so only the user's message is kept
+        await saveReply(null);
+        return true;
+      }
+      throw error;
+    }
+
+    try {
       // Build system message with wallet context
       const systemContent = SOLANA_SYSTEM_PROMPT + buildWalletContext();
       const systemMessage: Message = {
@@ -198,63 +397,169 @@ export function AIProvider({ children }: { children: ReactNode }) {
         userMessage,
       ];
 
+      // Show the user message and a growing assistant bubble while the reply arrives
+      const showStreamingReply = () => {
+        const placeholder: Message = {
+          id: assistantId,
+          role: 'assistant',
+          content: '',
+          provider: currentProvider,
+          model: currentModel,
+          timestamp: Date.now(),
+        };
+        setCurrentConversation({
+          ...convo,
+          messages: [...convo.messages, userMessage, placeholder],
+        });
+        setStreamingMessageId(assistantId);
+      };
+
       // Get AI response - use tools for blockchain queries
       let response: string;
+      let parts: MessagePart[] | undefined;
       if (settings.useTools !== false) {
+        showStreamingReply();
+
+        const runningTools = new Map<string, string>();
+        const updateToolStatus = () => {
+          const labels = Array.from(new Set(Array.from(runningTools.values()).map(getToolLabel)));
+          setToolStatus(labels.length > 0 ? `${labels.join(', ')}…` : null);
+        };
+
         // Use tool-enabled chat for Solana blockchain operations
-        response = await chatWithTools(
+        const result = await chatWithTools(
           currentProvider,
           messagesForAPI,
           currentModel,
           apiKey,
-          wallet.publicKey || undefined
+          wallet.publicKey || undefined,
+          {
+            stream: settings.streamResponses,
+            signal: controller.signal,
+            viaRelay,
+            // Long tool loops are checked against the limits before each further round
+            continueRun: (runUsage) => checkLimits(
+              viaRelay
+                ? calculateCreditCost(currentProvider, currentModel, runUsage, toolRounds.size)
+                : calculateCost(runUsage, pricing) ?? 0,
+              holdId
+            ),
+            onEvent: (event) => {
+              if (event.type === 'text') {
+                streamed += event.text;
+                roundText += event.text;
+                updateStreamingMessage(assistantId, streamed);
+              } else if (event.type === 'part') {
+                completedParts.push(event.part);
+                if (event.part.type === 'text') roundText = '';
+              } else if (event.type === 'usage') {
+                usage = addUsage(usage, event.usage);
+              } else if (event.type === 'tool_start') {
+                toolRounds.add(event.iteration);
+                runningTools.set(event.id, event.name);
+                updateToolStatus();
+              } else if (event.type === 'tool_end') {
+                runningTools.delete(event.id);
+                updateToolStatus();
+              }
+            },
+          }
         );
+        response = result.text;
+        // Only keep structured parts when tools were actually used
+        if (result.parts.some(part => part.type !== 'text')) {
+          parts = result.parts;
+        }
+
+        stoppedAtLimit = result.trace.stopReason === 'stopped';
+        if (result.trace.stopReason === 'max_iterations') {
+          console.warn(`Agent stopped after ${result.trace.iterations} rounds without finishing its tool calls`);
+        }
       } else {
         // Fallback to basic chat
-        const service = getAIService(currentProvider);
-        response = await service.chat(messagesForAPI, currentModel, apiKey);
+        const service = getAIService(currentProvider, viaRelay);
+
+        if (settings.streamResponses && service.stream) {
+          showStreamingReply();
+
+          const result = await service.stream(messagesForAPI, currentModel, apiKey, (chunk) => {
+            streamed += chunk;
+            updateStreamingMessage(assistantId, streamed);
+          }, controller.signal);
+          response = result.text;
+          usage = result.usage;
+        } else {
+          const result = await service.chat(messagesForAPI, currentModel, apiKey, controller.signal);
+          response = result.text;
+          usage = result.usage;
+        }
       }
 
       // Add assistant message
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      await saveReply({
+        id: assistantId,
         role: 'assistant',
         content: response,
+        parts,
         provider: currentProvider,
         model: currentModel,
         timestamp: Date.now(),
-      };
-
-      // Update conversation
-      const updatedConvo: Conversation = {
-        ...convo,
-        messages: [...convo.messages, userMessage, assistantMessage],
-        updatedAt: Date.now(),
-      };
-
-      setCurrentConversation(updatedConvo);
-
-      // Update conversations list
-      const existingIndex = conversations.findIndex(c => c.id === updatedConvo.id);
-      let updatedConvos: Conversation[];
-
-      if (existingIndex >= 0) {
-        updatedConvos = [...conversations];
-        updatedConvos[existingIndex] = updatedConvo;
-      } else {
-        updatedConvos = [updatedConvo, ...conversations];
+        tokens: usage,
+        cost: calculateCost(usage, pricing),
+        incomplete: stoppedAtLimit || undefined,
+        paidWithCredits: viaRelay || undefined,
+      });
+      if (holdId) {
+        await settleCredits(holdId, usage, toolRounds.size);
       }
-
-      setConversations(updatedConvos);
-      await saveConversations(updatedConvos);
-
+      return true;
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Tokens already consumed are charged; a stop before any usage arrived costs nothing
+        if (holdId) {
+          if (usage) {
+            await settleCredits(holdId, usage, toolRounds.size);
+          } else {
+            await refundCredits(holdId);
+          }
+        }
+        // Stopped by the user: keep whatever arrived, marked as incomplete. Rounds that ran
+        // tools keep their calls and results, so the reply replays like a finished one.
+        const partialText = roundText.replace(/^\n\n/, '');
+        const stoppedParts: MessagePart[] = partialText
+          ? [...completedParts, { type: 'text', text: partialText }]
+          : completedParts;
+        await saveReply(stoppedParts.length > 0 || streamed ? {
+          id: assistantId,
+          role: 'assistant',
+          content: streamed,
+          parts: stoppedParts.some(part => part.type !== 'text') ? stoppedParts : undefined,
+          provider: currentProvider,
+          model: currentModel,
+          timestamp: Date.now(),
+          tokens: usage,
+          cost: calculateCost(usage, pricing),
+          incomplete: true,
+          paidWithCredits: viaRelay || undefined,
+        } : null);
+        return true;
+      }
+
       console.error('Error sending message:', error);
+      if (holdId) {
+        await refundCredits(holdId);
+      }
+      // Drop any half-streamed reply so the conversation matches what was saved
+      setCurrentConversation(currentConversation);
       throw error;
     } finally {
-      setIsLoading(false);
+      endRequest();
     }
-  }, [currentProvider, currentModel, currentConversation, conversations, settings.apiKeys, wallet]);
+  }, [currentProvider, currentModel, currentConversation, conversations, settings, wallet, holdCredits, settleCredits, refundCredits, getRelayCredential, getSpentCredits]);
+
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const updateApiKey = useCallback(async (provider: AIProviderType, key: string) => {
     const newSettings = {
@@ -282,16 +587,23 @@ export function AIProvider({ children }: { children: ReactNode }) {
         conversations,
         currentConversation,
         isLoading,
+        streamingMessageId,
+        toolStatus,
         settings,
         setProvider,
         setModel,
         sendMessage,
+        stopGeneration,
         createNewConversation,
         selectConversation,
         deleteConversation,
         updateApiKey,
         updateSettings,
         hasApiKey,
+        usesCredits,
+        estimateCredits,
+        spendingWarning,
+        dismissSpendingWarning,
       }}
     >
       {children}
@@ -1,116 +1,125 @@
-import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
 import { Platform } from 'react-native';
 import { PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL, Connection } from '@solana/web3.js';
-import { CreditBalance, CreditPackage, CreditTransaction, PaymentToken } from '../types';
+import { AIProvider, CreditBalance, CreditPackage, CreditTransaction, PaymentToken, TokenUsage } from '../types';
 import { useSolana } from './SolanaProvider';
-import { storage } from '../utils/storage';
+import { useNetwork } from './NetworkProvider';
+import {
+  DEFAULT_BALANCE,
+  CREDIT_BALANCE_SCHEMA,
+  CREDIT_TRANSACTIONS_SCHEMA,
+  RECEIPT_KEY_SCHEMA,
+  RELAY_SESSION_SCHEMA,
+} from '../services/persisted-state';
+import { loadPersisted, savePersisted } from '../utils/persistence';
+import {
+  RelaySession,
+  RELAY_SESSION_TTL_MS,
+  createRelayCredential,
+  createSessionMessage,
+  creditMemo,
+  fetchRelayBalance,
+  fetchRelayReceipts,
+  getReceiptPublicKey,
+  isRelayConfigured,
+  isSessionValid,
+  redeemRelayVoucher,
+  registerRelayPurchase,
+} from '../services/relay';
+import { getPaymentConnection, verifyPayment } from '../services/purchase-verifier';
+import { estimateCreditCost } from '../services/credit-pricing';
+import { totalSpent } from '../services/credit-usage';
+import {
+  createHold,
+  findTreasuryPayments,
+  mergePurchases,
+  purchaseFromReceipt,
+  recomputeBalance,
+  refundHold,
+  settleHold,
+  verifyReceipt,
+} from '../services/credit-ledger';
+import { checkVoucher, decodeVoucher, isVoucherSigned } from '../services/vouchers';
+import { createReference, createTransferRequestURL, findReference } from '../services/solana-pay';
+import PRICING from '../services/pricing.json';
 
 // PURP Token mint address (placeholder - replace with actual PURP token mint)
-const PURP_MINT = 'PURPvHhLS5YJxAVDc9P5rFMVWZPQa8q9P3qVY8qJZJJ';
+export const PURP_MINT = 'PURPvHhLS5YJxAVDc9P5rFMVWZPQa8q9P3qVY8qJZJJ';
 
 // Treasury wallet to receive payments
 const TREASURY_WALLET = '9WzDXwBbmPdCBoccYHjkKxPFPdwJBKZQTm8D9P3CZqJV';
 
-// Credit packages available for purchase
-export const CREDIT_PACKAGES: CreditPackage[] = [
-  {
-    id: 'starter-sol',
-    name: 'Starter',
-    credits: 100,
-    price: 0.01,
-    token: 'SOL',
-  },
-  {
-    id: 'basic-sol',
-    name: 'Basic',
-    credits: 500,
-    price: 0.04,
-    token: 'SOL',
-    savings: '20% off',
-  },
-  {
-    id: 'pro-sol',
-    name: 'Pro',
-    credits: 1500,
-    price: 0.10,
-    token: 'SOL',
-    popular: true,
-    savings: '33% off',
-  },
-  {
-    id: 'unlimited-sol',
-    name: 'Unlimited',
-    credits: 5000,
-    price: 0.25,
-    token: 'SOL',
-    savings: '50% off',
-  },
-  // PURP packages (same credits, different pricing)
-  {
-    id: 'starter-purp',
-    name: 'Starter',
-    credits: 100,
-    price: 100,
-    token: 'PURP',
-  },
-  {
-    id: 'basic-purp',
-    name: 'Basic',
-    credits: 500,
-    price: 400,
-    token: 'PURP',
-    savings: '20% off',
-  },
-  {
-    id: 'pro-purp',
-    name: 'Pro',
-    credits: 1500,
-    price: 1000,
-    token: 'PURP',
-    popular: true,
-    savings: '33% off',
-  },
-  {
-    id: 'unlimited-purp',
-    name: 'Unlimited',
-    credits: 5000,
-    price: 2500,
-    token: 'PURP',
-    savings: '50% off',
-  },
-];
-
-// Cost per AI request in credits
-export const CREDIT_COSTS = {
-  claude: { 'claude-sonnet-4-20250514': 2, 'claude-3-5-haiku-20241022': 1 },
-  openai: { 'gpt-4o': 3, 'gpt-4o-mini': 1 },
-  gemini: { 'gemini-1.5-pro': 2, 'gemini-1.5-flash': 1 },
-  doubao: { 'doubao-1.5-pro': 2, 'doubao-1.5-lite': 1 },
-};
+// Key that signs credit vouchers; the treasury unless a separate issuer key is set
+const VOUCHER_ISSUER = process.env.EXPO_PUBLIC_VOUCHER_ISSUER || TREASURY_WALLET;
+
+// Credit packages available for purchase, shared with the relay so it credits the same amounts
+export const CREDIT_PACKAGES = PRICING.creditPackages as CreditPackage[];
+
+// Unpaid Solana Pay requests are dropped from the history after this long
+const PAYMENT_REQUEST_TTL_MS = 60 * 60 * 1000;
+
+export interface PaymentRequest {
+  url: string; // Solana Pay transfer request, shown as a QR code or opened in a wallet
+  purchase: CreditTransaction; // Pending until a payment with the reference key lands
+}
+
+interface Ledger {
+  balance: CreditBalance;
+  transactions: CreditTransaction[];
+}
 
 interface CreditsContextType {
+  // With a relay, what remains is the relay's figure once it's known, since that's what it charges
   balance: CreditBalance;
   transactions: CreditTransaction[];
   isLoading: boolean;
-  purchaseCredits: (packageId: string) => Promise<string>;
-  useCredits: (provider: string, model: string) => Promise<boolean>;
-  hasEnoughCredits: (provider: string, model: string) => boolean;
+  // Resolves once the payment is verified, or while it is still pending finality
+  purchaseCredits: (packageId: string) => Promise<CreditTransaction>;
+  // Start a Solana Pay purchase that any wallet can pay, recorded as pending
+  createPaymentRequest: (packageId: string) => Promise<PaymentRequest>;
+  // Look for the request's payment once and verify it; resolves to the purchase as it now stands
+  checkPaymentRequest: (purchaseId: string) => Promise<CreditTransaction>;
+  // Reserve the estimated cost before a request; returns the hold id, or throws if credits are short
+  holdCredits: (provider: AIProvider, model: string, inputTokens: number, conversationId?: string) => Promise<string>;
+  // Charge the actual cost of a finished (or stopped) request against its hold
+  settleCredits: (holdId: string, usage: TokenUsage | undefined, toolRounds: number) => Promise<void>;
+  // Give back a hold whose request failed
+  refundCredits: (holdId: string) => Promise<void>;
+  // True for a paid purchase that doesn't count yet because the relay hasn't issued its receipt
+  awaitingReceipt: (transaction: CreditTransaction) => boolean;
+  // Whether a purchase or grant adds to the balance, by the rule the balance is recomputed with
+  countsCredit: (transaction: CreditTransaction) => boolean;
+  // Whether the balance covers a short message to the model with a typical reply
+  hasEnoughCredits: (provider: AIProvider, model: string) => boolean;
+  // Credential that authenticates the hold's requests with the credits relay
+  getRelayCredential: (holdId: string) => Promise<string>;
+  // Rebuild purchases from the wallet's payments to the treasury; resolves to how many were recovered
+  restorePurchases: () => Promise<number>;
+  // Redeem a voucher code once; resolves to the recorded grant
+  redeemVoucher: (code: string) => Promise<CreditTransaction>;
   getPackagesByToken: (token: PaymentToken) => CreditPackage[];
+  // Credits spent since a time and/or in a conversation, optionally leaving out a hold in flight
+  getSpentCredits: (filter: { since?: number; conversationId?: string; excluding?: string }) => number;
 }
 
 const CreditsContext = createContext<CreditsContextType | null>(null);
 
-const DEFAULT_BALANCE: CreditBalance = {
-  total: 0,
-  used: 0,
-  remaining: 0,
-};
-
 export function CreditsProvider({ children }: { children: ReactNode }) {
-  const { wallet, sendSol } = useSolana();
+  const { wallet, sendSol, sendToken, signMessage } = useSolana();
+  const { chain, clusterLabel } = useNetwork();
   const [balance, setBalance] = useState<CreditBalance>(DEFAULT_BALANCE);
   const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // Holds are settled after the request finishes, so ledger updates read the latest
+  // state from here rather than from a render's closure
+  const ledgerRef = useRef<Ledger>({ balance: DEFAULT_BALANCE, transactions: [] });
+  const relaySessionRef = useRef<RelaySession | null>(null);
+  const verifyingRef = useRef(new Set<string>());
+  const receiptKeyRef = useRef<string | null>(null);
+  const [ledgerLoaded, setLedgerLoaded] = useState(false);
+  // The relay's own balance for the connected wallet, null until fetched
+  const [relayCredits, setRelayCredits] = useState<number | null>(null);
+  const relayCreditsRef = useRef<number | null>(null);
 
   // Load saved credits on mount
   useEffect(() => {
@@ -119,34 +128,273 @@ export function CreditsProvider({ children }: { children: ReactNode }) {
 
   const loadCredits = async () => {
     try {
-      const savedBalance = await storage.getItem('creditBalance');
-      const savedTransactions = await storage.getItem('creditTransactions');
-
-      if (savedBalance) {
-        setBalance(JSON.parse(savedBalance));
+      await loadReceiptKey();
+      // The saved balance is only a cache; the history is what counts
+      const savedTransactions = await loadPersisted(CREDIT_TRANSACTIONS_SCHEMA);
+      const savedBalance = await loadPersisted(CREDIT_BALANCE_SCHEMA);
+      const recomputed = recomputeBalance(savedTransactions, countsCredit);
+      if (recomputed.remaining !== savedBalance.remaining) {
+        console.warn('Saved credit balance did not match the ledger; using the ledger');
       }
-      if (savedTransactions) {
-        setTransactions(JSON.parse(savedTransactions));
+      ledgerRef.current = { balance: recomputed, transactions: savedTransactions };
+      setBalance(recomputed);
+      setTransactions(savedTransactions);
+
+      // Pick up purchases that were still confirming when the app closed
+      for (const purchase of savedTransactions.filter(t => t.type === 'purchase' && t.status === 'pending')) {
+        verifyPurchase(purchase);
       }
     } catch (error) {
       console.error('Error loading credits:', error);
+    } finally {
+      setLedgerLoaded(true);
     }
   };
 
   const saveCredits = async (newBalance: CreditBalance, newTransactions: CreditTransaction[]) => {
+    await savePersisted(CREDIT_BALANCE_SCHEMA, newBalance);
+    await savePersisted(CREDIT_TRANSACTIONS_SCHEMA, newTransactions);
+  };
+
+  // Receipts verify against the pinned key, or the relay's. The relay's is saved once fetched and
+  // used while the relay can't be reached. Until a key is known, receipts don't count.
+  const loadReceiptKey = async () => {
+    try {
+      receiptKeyRef.current = await getReceiptPublicKey();
+    } catch (error) {
+      console.warn('Error fetching the relay receipt key:', error);
+      receiptKeyRef.current = await loadPersisted(RECEIPT_KEY_SCHEMA);
+      return;
+    }
+    if (receiptKeyRef.current) {
+      await savePersisted(RECEIPT_KEY_SCHEMA, receiptKeyRef.current)
+        .catch(error => console.warn('Error saving the relay receipt key:', error));
+    }
+  };
+
+  // A grant counts while its voucher's signature holds, even after the voucher expires.
+  // With a relay, it alone grants credits, so a purchase needs its signed receipt.
+  // Without one, purchases count by their stored status, which nothing re-checks, so anyone
+  // editing the ledger can change the total. That balance is display-only: without a relay,
+  // requests need the user's own API key and credits never pay for one.
+  const countsCredit = (credit: CreditTransaction): boolean => {
+    if (credit.type === 'grant') {
+      return !!credit.voucher && credit.voucher.payload.credits === credit.credits &&
+        isVoucherSigned(credit.voucher, VOUCHER_ISSUER);
+    }
+    if (isRelayConfigured()) {
+      return !!credit.receipt && !!receiptKeyRef.current && verifyReceipt(credit.receipt, receiptKeyRef.current, credit);
+    }
+    // Purchases recorded before verification existed have no status and were credited
+    return credit.status === 'confirmed' || credit.status === undefined;
+  };
+
+  // Every change goes through the history; the balance is recomputed from it. Rejects when the
+  // ledger couldn't be saved; the change stays in memory and is written with the next one.
+  const commitLedger = async (update: (ledger: Ledger) => CreditTransaction[]) => {
+    const nextTransactions = update(ledgerRef.current);
+    const next = { balance: recomputeBalance(nextTransactions, countsCredit), transactions: nextTransactions };
+    ledgerRef.current = next;
+    setBalance(next.balance);
+    setTransactions(next.transactions);
+    await saveCredits(next.balance, next.transactions);
+  };
+
+  const updateRelayCredits = (credits: number | null) => {
+    relayCreditsRef.current = credits;
+    setRelayCredits(credits);
+  };
+
+  // The local ledger and the relay's drift apart after a restore or reinstall. Pulls in the
+  // relay's receipts and takes its balance as the one shown, so credits it would refuse aren't.
+  const syncWithRelay = async (session: RelaySession) => {
     try {
-      await storage.setItem('creditBalance', JSON.stringify(newBalance));
-      await storage.setItem('creditTransactions', JSON.stringify(newTransactions));
+      const [receipts, relayBalance] = await Promise.all([fetchRelayReceipts(session), fetchRelayBalance(session)]);
+      if (!receiptKeyRef.current) await loadReceiptKey();
+      await commitLedger(({ transactions }) => mergePurchases(transactions, receipts.map(purchaseFromReceipt)));
+      if (session.wallet === relaySessionRef.current?.wallet) updateRelayCredits(relayBalance.credits);
     } catch (error) {
-      console.error('Error saving credits:', error);
+      console.warn('Error syncing with the credits relay:', error);
     }
   };
 
+  // Re-read the relay's balance after it changes, without asking the wallet for a new session
+  const refreshRelayCredits = async () => {
+    const session = relaySessionRef.current;
+    if (!isRelayConfigured() || !session || !isSessionValid(session, wallet.publicKey)) return;
+    try {
+      updateRelayCredits((await fetchRelayBalance(session)).credits);
+    } catch (error) {
+      console.warn('Error fetching the credits relay balance:', error);
+    }
+  };
+
+  // Reuse the wallet's signed relay session, asking the wallet to sign a new one when it has expired
+  const getRelaySession = useCallback(async (): Promise<RelaySession> => {
+    if (!wallet.publicKey) {
+      throw new Error('Connect your wallet to use credits');
+    }
+    if (isSessionValid(relaySessionRef.current, wallet.publicKey)) {
+      return relaySessionRef.current;
+    }
+
+    const savedSession = await loadPersisted(RELAY_SESSION_SCHEMA);
+    if (isSessionValid(savedSession, wallet.publicKey)) {
+      relaySessionRef.current = savedSession;
+      syncWithRelay(savedSession);
+      return savedSession;
+    }
+
+    const expiresAt = Date.now() + RELAY_SESSION_TTL_MS;
+    const nonce = Math.random().toString(36).slice(2, 12);
+    const signature = await signMessage(createSessionMessage(wallet.publicKey, expiresAt, nonce));
+    const session: RelaySession = { wallet: wallet.publicKey, expiresAt, nonce, signature };
+
+    relaySessionRef.current = session;
+    // Unsaved, the session still works until the app closes; the wallet is asked again after that
+    await savePersisted(RELAY_SESSION_SCHEMA, session)
+      .catch(error => console.warn('Error saving the relay session:', error));
+    syncWithRelay(session);
+    return session;
+  }, [wallet.publicKey, signMessage]);
+
+  const getRelayCredential = useCallback(async (holdId: string): Promise<string> => {
+    return createRelayCredential(await getRelaySession(), holdId);
+  }, [getRelaySession]);
+
   const getPackagesByToken = useCallback((token: PaymentToken): CreditPackage[] => {
     return CREDIT_PACKAGES.filter(pkg => pkg.token === token);
   }, []);
 
-  const purchaseCredits = useCallback(async (packageId: string): Promise<string> => {
+  const awaitingReceipt = useCallback((transaction: CreditTransaction): boolean =>
+    isRelayConfigured() && transaction.type === 'purchase' && transaction.status === 'confirmed' &&
+      !!transaction.signature && !transaction.receipt,
+  []);
+
+  // The relay keeps its own balance and verifies the payment itself; its receipt is what
+  // credits the purchase here. Resolves whether the purchase now has one.
+  const requestReceipt = useCallback(async (purchase: CreditTransaction): Promise<boolean> => {
+    if (!isRelayConfigured() || !purchase.signature) return false;
+    try {
+      const { receipt } = await registerRelayPurchase(await getRelaySession(), purchase.signature);
+      // Not finalized for the relay yet; asked again on the next load or connect
+      if (!receipt) return false;
+      if (!receiptKeyRef.current) await loadReceiptKey();
+      await commitLedger(({ transactions }) =>
+        transactions.map(t => (t.id === purchase.id ? { ...t, receipt } : t))
+      );
+      await refreshRelayCredits();
+      return true;
+    } catch (error) {
+      console.warn('Error registering purchase with the credits relay:', error);
+      return false;
+    }
+  }, [getRelaySession]);
+
+  // Paid purchases missing their receipt (the relay was down, the app closed) are shown as
+  // awaiting one and asked for again once the ledger is loaded and whenever a wallet connects,
+  // since the relay session needs it. A session the wallet already signed syncs with the relay first.
+  useEffect(() => {
+    updateRelayCredits(null);
+    if (!ledgerLoaded || !wallet.publicKey || !isRelayConfigured()) return;
+
+    (async () => {
+      // The key may have been unreachable at launch, leaving receipts already held uncounted
+      if (!receiptKeyRef.current) {
+        await loadReceiptKey();
+        // Only the balance changes, and it's recomputed on every load, so a failed save can wait
+        if (receiptKeyRef.current) {
+          await commitLedger(({ transactions }) => transactions)
+            .catch(error => console.warn('Error saving credits:', error));
+        }
+      }
+      const savedSession = relaySessionRef.current ?? await loadPersisted(RELAY_SESSION_SCHEMA);
+      if (isSessionValid(savedSession, wallet.publicKey)) {
+        relaySessionRef.current = savedSession;
+        await syncWithRelay(savedSession);
+      }
+      const missing = ledgerRef.current.transactions.filter(t => awaitingReceipt(t) && t.sender === wallet.publicKey);
+      for (const purchase of missing) {
+        await requestReceipt(purchase);
+      }
+    })();
+  }, [ledgerLoaded, wallet.publicKey]);
+
+  // A Solana Pay request has no signature until its payment lands. Finds it by reference key,
+  // or drops the request once it has gone unpaid too long.
+  const findRequestPayment = async (purchase: CreditTransaction): Promise<CreditTransaction | null> => {
+    const signature = await findReference(getPaymentConnection(), purchase.reference!);
+    if (!signature) {
+      if (Date.now() - purchase.timestamp > PAYMENT_REQUEST_TTL_MS) {
+        await commitLedger(({ transactions }) => transactions.filter(t => t.id !== purchase.id));
+        return { ...purchase, status: 'failed', failureReason: 'The payment request expired' };
+      }
+      return null;
+    }
+
+    await commitLedger(({ transactions }) =>
+      transactions.map(t => (t.id === purchase.id ? { ...t, signature } : t))
+    );
+    return { ...purchase, signature };
+  };
+
+  // Wait for a pending purchase to finalize, then grant its credits or mark it failed
+  const verifyPurchase = useCallback(async (pending: CreditTransaction): Promise<CreditTransaction> => {
+    let purchase = pending;
+    const { token } = purchase;
+    const verifiable = purchase.reference || (purchase.signature && purchase.sender);
+    if (!verifiable || !token || verifyingRef.current.has(purchase.id)) {
+      return purchase;
+    }
+    verifyingRef.current.add(purchase.id);
+
+    try {
+      if (!purchase.signature) {
+        const found = await findRequestPayment(purchase);
+        if (!found?.signature) return found ?? purchase;
+        purchase = found;
+      }
+
+      const result = await verifyPayment(getPaymentConnection(), {
+        signature: purchase.signature!,
+        // Solana Pay payments can come from any wallet; the reference key ties them to the request
+        sender: purchase.reference ? undefined : purchase.sender,
+        reference: purchase.reference,
+        recipient: TREASURY_WALLET,
+        token,
+        amount: purchase.amount,
+        mint: token === 'PURP' ? PURP_MINT : undefined,
+      }, { sentAt: purchase.timestamp });
+      if (result.status === 'pending') return purchase;
+
+      await commitLedger(({ transactions }) => {
+        const current = transactions.find(t => t.id === purchase.id);
+        // Only a still-pending purchase can change, so credits are never granted twice
+        if (current?.status !== 'pending') return transactions;
+
+        const confirmed = result.status === 'finalized';
+        return transactions.map(t =>
+          t.id === purchase.id
+            ? { ...t, status: confirmed ? 'confirmed' : 'failed', failureReason: result.status === 'failed' ? result.reason : undefined }
+            : t
+        );
+      });
+
+      if (result.status === 'finalized') {
+        await requestReceipt(purchase);
+      }
+
+      return ledgerRef.current.transactions.find(t => t.id === purchase.id) ?? purchase;
+    } catch (error) {
+      // RPC trouble: leave it pending and try again later
+      console.warn('Error verifying purchase:', error);
+      return purchase;
+    } finally {
+      verifyingRef.current.delete(purchase.id);
+    }
+  }, [requestReceipt]);
+
+  const purchaseCredits = useCallback(async (packageId: string): Promise<CreditTransaction> => {
     const pkg = CREDIT_PACKAGES.find(p => p.id === packageId);
     if (!pkg) {
       throw new Error('Invalid package');
@@ -156,23 +404,21 @@ export function CreditsProvider({ children }: { children: ReactNode }) {
       throw new Error('Please connect your wallet first');
     }
 
+    // The treasury only accepts mainnet funds; test-cluster SOL must not buy credits
+    if (chain !== 'mainnet') {
+      throw new Error(`Credits can only be purchased on mainnet. You're on ${clusterLabel} — switch networks in Settings.`);
+    }
+
     setIsLoading(true);
 
     try {
-      let signature: string;
-
-      if (pkg.token === 'SOL') {
-        // Send SOL to treasury
-        signature = await sendSol(TREASURY_WALLET, pkg.price);
-      } else {
-        // For PURP tokens, we'd need to implement SPL token transfer
-        // For now, simulate the transaction
-        signature = `purp_${Date.now()}_${Math.random().toString(36).slice(2)}`;
-        console.log('PURP payment simulated - implement SPL token transfer for production');
-      }
+      // Pay the treasury in the package's token
+      const signature = pkg.token === 'SOL'
+        ? await sendSol(TREASURY_WALLET, pkg.price)
+        : await sendToken(PURP_MINT, TREASURY_WALLET, pkg.price);
 
-      // Record the transaction
-      const transaction: CreditTransaction = {
+      // Recorded as pending; credits are granted once the payment is verified
+      const purchase: CreditTransaction = {
         id: Date.now().toString(),
         type: 'purchase',
         amount: pkg.price,
@@ -180,86 +426,206 @@ export function CreditsProvider({ children }: { children: ReactNode }) {
         token: pkg.token,
         signature,
         timestamp: Date.now(),
+        status: 'pending',
+        sender: wallet.publicKey,
       };
 
-      // Update balance
-      const newBalance: CreditBalance = {
-        total: balance.total + pkg.credits,
-        used: balance.used,
-        remaining: balance.remaining + pkg.credits,
-        lastPurchase: Date.now(),
-      };
-
-      const newTransactions = [transaction, ...transactions];
-
-      setBalance(newBalance);
-      setTransactions(newTransactions);
-      await saveCredits(newBalance, newTransactions);
+      await commitLedger(({ transactions }) => [purchase, ...transactions]);
 
-      return signature;
+      const verified = await verifyPurchase(purchase);
+      if (verified.status === 'failed') {
+        throw new Error(verified.failureReason || 'The payment could not be verified');
+      }
+      return verified;
     } catch (error) {
       console.error('Error purchasing credits:', error);
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, [wallet, balance, transactions, sendSol]);
+  }, [wallet, sendSol, sendToken, chain, clusterLabel, verifyPurchase]);
 
-  const getCreditCost = (provider: string, model: string): number => {
-    const providerCosts = CREDIT_COSTS[provider as keyof typeof CREDIT_COSTS];
-    if (!providerCosts) return 1;
-    return providerCosts[model as keyof typeof providerCosts] || 1;
-  };
+  const createPaymentRequest = useCallback(async (packageId: string): Promise<PaymentRequest> => {
+    const pkg = CREDIT_PACKAGES.find(p => p.id === packageId);
+    if (!pkg) {
+      throw new Error('Invalid package');
+    }
+    // The relay credits the wallet named in the memo, and needs that wallet's session to do so
+    if (isRelayConfigured() && !wallet.publicKey) {
+      throw new Error('Please connect your wallet first');
+    }
 
-  const hasEnoughCredits = useCallback((provider: string, model: string): boolean => {
-    const cost = getCreditCost(provider, model);
-    return balance.remaining >= cost;
-  }, [balance.remaining]);
+    const reference = createReference();
+    const url = createTransferRequestURL({
+      recipient: TREASURY_WALLET,
+      amount: pkg.price,
+      splToken: pkg.token === 'PURP' ? PURP_MINT : undefined,
+      reference,
+      label: 'Solana AI Chat',
+      message: `${pkg.credits.toLocaleString()} credits`,
+      memo: wallet.publicKey ? creditMemo(wallet.publicKey) : undefined,
+    });
+
+    const purchase: CreditTransaction = {
+      id: Date.now().toString(),
+      type: 'purchase',
+      amount: pkg.price,
+      credits: pkg.credits,
+      token: pkg.token,
+      timestamp: Date.now(),
+      status: 'pending',
+      sender: wallet.publicKey ?? undefined,
+      reference,
+    };
+    await commitLedger(({ transactions }) => [purchase, ...transactions]);
+    return { url, purchase };
+  }, [wallet.publicKey]);
+
+  const checkPaymentRequest = useCallback(async (purchaseId: string): Promise<CreditTransaction> => {
+    const purchase = ledgerRef.current.transactions.find(t => t.id === purchaseId);
+    if (!purchase) {
+      throw new Error('The payment request expired');
+    }
+    if (purchase.status !== 'pending') return purchase;
+    return verifyPurchase(purchase);
+  }, [verifyPurchase]);
+
+  const shownBalance = relayCredits === null ? balance : { ...balance, remaining: relayCredits };
+
+  const hasEnoughCredits = useCallback((provider: AIProvider, model: string): boolean => {
+    return shownBalance.remaining >= estimateCreditCost(provider, model, 0);
+  }, [shownBalance.remaining]);
+
+  const holdCredits = useCallback(async (
+    provider: AIProvider,
+    model: string,
+    inputTokens: number,
+    conversationId?: string
+  ): Promise<string> => {
+    const cost = estimateCreditCost(provider, model, inputTokens);
+    if ((relayCreditsRef.current ?? ledgerRef.current.balance.remaining) < cost) {
+      throw new Error(`Not enough credits: this message needs about ${cost}. Buy more in Settings.`);
+    }
 
-  const useCredits = useCallback(async (provider: string, model: string): Promise<boolean> => {
-    const cost = getCreditCost(provider, model);
+    const holdId = `usage_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const hold = createHold(holdId, cost, { provider, model, conversationId });
+    await commitLedger(({ transactions }) => [hold, ...transactions]);
+    return holdId;
+  }, []);
 
-    if (balance.remaining < cost) {
-      return false;
+  const settleCredits = useCallback(async (holdId: string, usage: TokenUsage | undefined, toolRounds: number) => {
+    await commitLedger(({ balance, transactions }) =>
+      settleHold(transactions, balance.remaining, holdId, usage, toolRounds)
+    );
+    await refreshRelayCredits();
+  }, [wallet.publicKey]);
+
+  const refundCredits = useCallback(async (holdId: string) => {
+    await commitLedger(({ transactions }) => refundHold(transactions, holdId));
+    await refreshRelayCredits();
+  }, [wallet.publicKey]);
+
+  const getSpentCredits = useCallback((
+    { since, conversationId, excluding }: { since?: number; conversationId?: string; excluding?: string }
+  ): number => totalSpent(ledgerRef.current.transactions.filter(t =>
+    (since === undefined || t.timestamp >= since) &&
+    (conversationId === undefined || t.conversationId === conversationId) &&
+    (excluding === undefined || (t.id !== excluding && t.id !== `${excluding}_refund`))
+  )), []);
+
+  const restorePurchases = useCallback(async (): Promise<number> => {
+    if (!wallet.publicKey) {
+      throw new Error('Please connect your wallet first');
     }
 
-    // Deduct credits
-    const newBalance: CreditBalance = {
-      ...balance,
-      used: balance.used + cost,
-      remaining: balance.remaining - cost,
-    };
+    setIsLoading(true);
+    try {
+      const paid = await findTreasuryPayments(getPaymentConnection(), wallet.publicKey, {
+        treasury: TREASURY_WALLET,
+        packages: CREDIT_PACKAGES,
+        mints: { PURP: PURP_MINT },
+      });
+      let restored = paid;
+
+      if (isRelayConfigured()) {
+        const session = await getRelaySession();
+        // Payments the relay has never seen are verified and credited there first
+        const known = ledgerRef.current.transactions;
+        for (const purchase of paid.filter(p => !known.some(t => t.signature === p.signature && t.receipt))) {
+          try {
+            await registerRelayPurchase(session, purchase.signature!);
+          } catch (error) {
+            console.warn('Error registering restored purchase with the credits relay:', error);
+          }
+        }
+        await loadReceiptKey();
+        restored = (await fetchRelayReceipts(session)).map(purchaseFromReceipt);
+      }
 
-    // Record usage transaction
-    const transaction: CreditTransaction = {
-      id: Date.now().toString(),
-      type: 'usage',
-      amount: 0,
-      credits: -cost,
-      timestamp: Date.now(),
-      provider: provider as any,
-      model,
-    };
+      const countedPurchases = () => ledgerRef.current.transactions.filter(t => t.type === 'purchase' && countsCredit(t)).length;
+      const before = countedPurchases();
+      await commitLedger(({ transactions }) => mergePurchases(transactions, restored));
+      await refreshRelayCredits();
+      return countedPurchases() - before;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet.publicKey, getRelaySession]);
 
-    const newTransactions = [transaction, ...transactions];
+  const redeemVoucher = useCallback(async (code: string): Promise<CreditTransaction> => {
+    const voucher = decodeVoucher(code);
+    const problem = checkVoucher(voucher, VOUCHER_ISSUER, wallet.publicKey);
+    if (problem) {
+      throw new Error(problem);
+    }
+    if (ledgerRef.current.transactions.some(t => t.type === 'grant' && t.voucher?.payload.id === voucher.payload.id)) {
+      throw new Error('This voucher has already been redeemed');
+    }
 
-    setBalance(newBalance);
-    setTransactions(newTransactions);
-    await saveCredits(newBalance, newTransactions);
+    setIsLoading(true);
+    try {
+      // The relay enforces one redemption per voucher across installs
+      if (isRelayConfigured()) {
+        const relayBalance = await redeemRelayVoucher(await getRelaySession(), voucher);
+        updateRelayCredits(relayBalance.credits);
+      }
 
-    return true;
-  }, [balance, transactions]);
+      const grant: CreditTransaction = {
+        id: `grant_${voucher.payload.id}`,
+        type: 'grant',
+        amount: 0,
+        credits: voucher.payload.credits,
+        timestamp: Date.now(),
+        sender: wallet.publicKey ?? undefined,
+        voucher,
+      };
+      await commitLedger(({ transactions }) => [grant, ...transactions]);
+      return grant;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet.publicKey, getRelaySession]);
 
   return (
     <CreditsContext.Provider
       value={{
-        balance,
+        balance: shownBalance,
         transactions,
         isLoading,
         purchaseCredits,
-        useCredits,
+        createPaymentRequest,
+        checkPaymentRequest,
+        holdCredits,
+        settleCredits,
+        refundCredits,
+        awaitingReceipt,
+        countsCredit,
         hasEnoughCredits,
+        getRelayCredential,
+        restorePurchases,
+        redeemVoucher,
         getPackagesByToken,
+        getSpentCredits,
       }}
     >
       {children}
@@ -0,0 +1,85 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import { Connection } from '@solana/web3.js';
+import { NetworkSettings } from '../types';
+import {
+  DEFAULT_NETWORK_SETTINGS,
+  WalletCluster,
+  ClusterChain,
+  createConnection,
+  getClusterChain,
+  getClusterLabel,
+  getEndpoint,
+  getWalletCluster,
+  setActiveNetwork,
+} from '../services/solana-network';
+import { NETWORK_SETTINGS_SCHEMA } from '../services/persisted-state';
+import { loadPersisted, savePersisted } from '../utils/persistence';
+
+interface NetworkContextType {
+  network: NetworkSettings;
+  connection: Connection;
+  endpoint: string;
+  chain: ClusterChain;
+  walletCluster: WalletCluster;
+  clusterLabel: string;
+  updateNetwork: (settings: NetworkSettings) => Promise<void>;
+}
+
+const NetworkContext = createContext<NetworkContextType | null>(null);
+
+export function NetworkProvider({ children }: { children: ReactNode }) {
+  const [network, setNetwork] = useState<NetworkSettings>(DEFAULT_NETWORK_SETTINGS);
+
+  // Load saved network profile on mount
+  useEffect(() => {
+    loadNetwork();
+  }, []);
+
+  // Keep tool execution and other non-React callers on the same profile
+  useEffect(() => {
+    setActiveNetwork(network);
+  }, [network]);
+
+  const loadNetwork = async () => {
+    try {
+      setNetwork(await loadPersisted(NETWORK_SETTINGS_SCHEMA));
+    } catch (error) {
+      console.error('Error loading network settings:', error);
+    }
+  };
+
+  const updateNetwork = useCallback(async (settings: NetworkSettings) => {
+    setNetwork(settings);
+    try {
+      await savePersisted(NETWORK_SETTINGS_SCHEMA, settings);
+    } catch (error) {
+      console.error('Error saving network settings:', error);
+    }
+  }, []);
+
+  const connection = useMemo(() => createConnection(network), [network]);
+
+  return (
+    <NetworkContext.Provider
+      value={{
+        network,
+        connection,
+        endpoint: getEndpoint(network),
+        chain: getClusterChain(network),
+        walletCluster: getWalletCluster(network),
+        clusterLabel: getClusterLabel(network),
+        updateNetwork,
+      }}
+    >
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+export function useNetwork() {
+  const context = useContext(NetworkContext);
+  if (!context) {
+    throw new Error('useNetwork must be used within a NetworkProvider');
+  }
+  return context;
+}
@@ -1,8 +1,15 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
 import { Platform } from 'react-native';
-import { Connection, PublicKey, LAMPORTS_PER_SOL, Transaction, SystemProgram } from '@solana/web3.js';
+import { PublicKey, LAMPORTS_PER_SOL, SystemProgram, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import { WalletState, TokenBalance } from '../types';
 import { storage } from '../utils/storage';
+import { useNetwork } from './NetworkProvider';
+import { buildTokenTransfer } from '../services/token-transfer';
+import { BuiltTransaction, SendOptions, buildTransaction } from '../services/transaction-builder';
+import { TransactionPreview, previewTransaction as simulatePreview } from '../services/transaction-preview';
+import { parseAmount, toBaseUnits } from '../utils/amounts';
+import { resolveTokenMetadata, shortMint } from '../services/token-metadata';
 
 // Conditionally import mobile wallet adapter (not available on web)
 let transact: any = null;
@@ -14,7 +21,8 @@ if (Platform.OS !== 'web') {
   Web3MobileWallet = mwa.Web3MobileWallet;
 }
 
-const RPC_ENDPOINT = 'https://api.mainnet-beta.solana.com';
+const SOL_DECIMALS = 9;
+
 const APP_IDENTITY = {
   name: 'Solana AI Chat',
   uri: 'https://solana-ai-chat.app',
@@ -27,7 +35,25 @@ interface SolanaContextType {
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
   refreshBalance: () => Promise<void>;
-  sendSol: (recipient: string, amount: number) => Promise<string>;
+  // Amounts are in whole SOL or tokens; pass the typed text to keep every decimal place exact
+  sendSol: (recipient: string, amount: number | string, options?: SendOptions) => Promise<string>;
+  // Works for Token and Token-2022 mints
+  sendToken: (
+    mint: string,
+    recipient: string,
+    amount: number | string,
+    options?: SendOptions & { memo?: string }
+  ) => Promise<string>;
+  // Build without sending, so the transaction can be previewed and confirmed first
+  prepareSol: (recipient: string, amount: number | string, options?: SendOptions) => Promise<BuiltTransaction>;
+  prepareToken: (
+    mint: string,
+    recipient: string,
+    amount: number | string,
+    options?: SendOptions & { memo?: string }
+  ) => Promise<BuiltTransaction>;
+  previewTransaction: (built: BuiltTransaction) => Promise<TransactionPreview>;
+  sendPrepared: (built: BuiltTransaction) => Promise<string>;
   signMessage: (message: string) => Promise<string>;
 }
 
@@ -43,13 +69,20 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
   const [connecting, setConnecting] = useState(false);
   const [authToken, setAuthToken] = useState<string | null>(null);
 
-  const connection = new Connection(RPC_ENDPOINT, 'confirmed');
+  const { connection, chain, walletCluster } = useNetwork();
 
   // Load saved wallet state
   useEffect(() => {
     loadSavedWallet();
   }, []);
 
+  // Balances are per cluster, so reload them when the network profile changes
+  useEffect(() => {
+    if (wallet.publicKey) {
+      fetchBalance(wallet.publicKey);
+    }
+  }, [connection]);
+
   const loadSavedWallet = async () => {
     try {
       const savedPubkey = await storage.getItem('walletPubkey');
@@ -81,17 +114,19 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
         balance: solBalance,
       }));
 
-      // Fetch token balances
-      const tokenAccounts = await connection.getParsedTokenAccountsByOwner(pubkey, {
-        programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
-      });
+      // Fetch token balances from both token programs
+      const tokenAccounts = await Promise.all(
+        [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(programId =>
+          connection.getParsedTokenAccountsByOwner(pubkey, { programId })
+        )
+      );
 
-      const tokens: TokenBalance[] = tokenAccounts.value.map(account => {
+      const tokens: TokenBalance[] = tokenAccounts.flatMap(accounts => accounts.value).map(account => {
         const info = account.account.data.parsed.info;
         return {
           mint: info.mint,
-          symbol: 'SPL', // Would need metadata lookup for actual symbol
-          name: 'SPL Token',
+          symbol: shortMint(info.mint),
+          name: 'Unknown Token',
           balance: info.tokenAmount.amount,
           decimals: info.tokenAmount.decimals,
           uiBalance: info.tokenAmount.uiAmountString,
@@ -102,6 +137,18 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
         ...prev,
         tokens,
       }));
+
+      // Names and logos fill in once resolved; most come straight from the cache
+      const metadata = await resolveTokenMetadata(connection, chain, tokens.map(token => token.mint));
+      setWallet(prev => ({
+        ...prev,
+        tokens: prev.tokens.map(token => {
+          const resolved = metadata[token.mint];
+          return resolved
+            ? { ...token, symbol: resolved.symbol, name: resolved.name, logoUri: resolved.logoUri }
+            : token;
+        }),
+      }));
     } catch (error) {
       console.error('Error fetching balance:', error);
     }
@@ -134,7 +181,7 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
       const result = await transact(async (mobileWallet: any) => {
         // Authorize the app
         const authResult = await mobileWallet.authorize({
-          cluster: 'mainnet-beta',
+          cluster: walletCluster,
           identity: APP_IDENTITY,
         });
 
@@ -164,7 +211,7 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
     } finally {
       setConnecting(false);
     }
-  }, [connecting]);
+  }, [connecting, walletCluster]);
 
   const disconnect = useCallback(async () => {
     try {
@@ -196,36 +243,24 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
     }
   }, [wallet.publicKey]);
 
-  const sendSol = useCallback(async (recipient: string, amount: number): Promise<string> => {
+  // Have the wallet sign and submit a transaction built by the caller
+  const signAndSendTransaction = useCallback(async (transaction: VersionedTransaction): Promise<string> => {
     if (!wallet.publicKey || !authToken) {
       throw new Error('Wallet not connected');
     }
+    // The wallet would submit to devnet (see getWalletCluster) while the app reads localnet
+    if (chain === 'localnet') {
+      throw new Error("Wallets can't send on localnet. Switch to devnet or a custom endpoint to send.");
+    }
 
     const signature = await transact(async (mobileWallet: Web3MobileWallet) => {
       // Reauthorize if needed
       await mobileWallet.authorize({
-        cluster: 'mainnet-beta',
+        cluster: walletCluster,
         identity: APP_IDENTITY,
         auth_token: authToken,
       });
 
-      const senderPubkey = new PublicKey(wallet.publicKey!);
-      const recipientPubkey = new PublicKey(recipient);
-
-      // Create transaction
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: senderPubkey,
-          toPubkey: recipientPubkey,
-          lamports: amount * LAMPORTS_PER_SOL,
-        })
-      );
-
-      // Get latest blockhash
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = senderPubkey;
-
       // Sign and send
       const signedTxs = await mobileWallet.signAndSendTransactions({
         transactions: [transaction],
@@ -238,7 +273,87 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
     setTimeout(() => refreshBalance(), 2000);
 
     return signature;
-  }, [wallet.publicKey, authToken, connection, refreshBalance]);
+  }, [wallet.publicKey, authToken, chain, walletCluster, refreshBalance]);
+
+  // Build a v0 transaction with compute budget and priority fee, ready to preview and send
+  const prepareInstructions = useCallback(async (
+    instructions: TransactionInstruction[],
+    options?: SendOptions
+  ): Promise<BuiltTransaction> => {
+    if (!wallet.publicKey) {
+      throw new Error('Wallet not connected');
+    }
+    return buildTransaction(connection, wallet.publicKey, instructions, options);
+  }, [wallet.publicKey, connection]);
+
+  const prepareSol = useCallback(async (recipient: string, amount: number | string, options?: SendOptions): Promise<BuiltTransaction> => {
+    if (!wallet.publicKey) {
+      throw new Error('Wallet not connected');
+    }
+
+    // Whole lamports only; floating point SOL amounts can land between them
+    const lamports = typeof amount === 'string' ? parseAmount(amount, SOL_DECIMALS) : toBaseUnits(amount, SOL_DECIMALS);
+    if (lamports <= 0n) {
+      throw new Error('Invalid amount');
+    }
+
+    return prepareInstructions([
+      SystemProgram.transfer({
+        fromPubkey: new PublicKey(wallet.publicKey),
+        toPubkey: new PublicKey(recipient),
+        lamports,
+      }),
+    ], options);
+  }, [wallet.publicKey, prepareInstructions]);
+
+  // Token transfer to the recipient's associated token account, creating it if needed
+  const prepareToken = useCallback(async (
+    mint: string,
+    recipient: string,
+    amount: number | string,
+    { memo, ...options }: SendOptions & { memo?: string } = {}
+  ): Promise<BuiltTransaction> => {
+    if (!wallet.publicKey) {
+      throw new Error('Wallet not connected');
+    }
+
+    const { instructions } = await buildTokenTransfer(connection, {
+      owner: wallet.publicKey,
+      recipient,
+      mint,
+      amount,
+      memo,
+    });
+
+    return prepareInstructions(instructions, options);
+  }, [wallet.publicKey, connection, prepareInstructions]);
+
+  const previewTransaction = useCallback(
+    (built: BuiltTransaction) => simulatePreview(connection, built),
+    [connection]
+  );
+
+  const sendPrepared = useCallback(async (built: BuiltTransaction): Promise<string> => {
+    // A review can outlast the blockhash; the wallet would only reject it later
+    const blockHeight = await connection.getBlockHeight();
+    if (blockHeight > built.lastValidBlockHeight) {
+      throw new Error('Transaction expired, please review it again');
+    }
+    return signAndSendTransaction(built.transaction);
+  }, [connection, signAndSendTransaction]);
+
+  const sendSol = useCallback(async (recipient: string, amount: number | string, options?: SendOptions): Promise<string> => {
+    return sendPrepared(await prepareSol(recipient, amount, options));
+  }, [prepareSol, sendPrepared]);
+
+  const sendToken = useCallback(async (
+    mint: string,
+    recipient: string,
+    amount: number | string,
+    options?: SendOptions & { memo?: string }
+  ): Promise<string> => {
+    return sendPrepared(await prepareToken(mint, recipient, amount, options));
+  }, [prepareToken, sendPrepared]);
 
   const signMessage = useCallback(async (message: string): Promise<string> => {
     if (!wallet.publicKey || !authToken) {
@@ -247,7 +362,7 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
 
     const signature = await transact(async (mobileWallet: Web3MobileWallet) => {
       await mobileWallet.authorize({
-        cluster: 'mainnet-beta',
+        cluster: walletCluster,
         identity: APP_IDENTITY,
         auth_token: authToken,
       });
@@ -262,7 +377,7 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
     });
 
     return signature;
-  }, [wallet.publicKey, authToken]);
+  }, [wallet.publicKey, authToken, walletCluster]);
 
   return (
     <SolanaContext.Provider
@@ -273,6 +388,11 @@ export function SolanaProvider({ children }: { children: ReactNode }) {
         disconnect,
         refreshBalance,
         sendSol,
+        sendToken,
+        prepareSol,
+        prepareToken,
+        previewTransaction,
+        sendPrepared,
         signMessage,
       }}
     >
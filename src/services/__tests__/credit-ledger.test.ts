@@ -0,0 +1,91 @@
+import { createHold, mergePurchases, recomputeBalance, refundHold, settleHold } from '../credit-ledger';
+import { MIN_REQUEST_CREDITS, calculateCreditCost } from '../credit-pricing';
+import { CreditTransaction } from '../../types';
+
+const MODEL = 'gpt-4o';
+const countsAll = () => true;
+const remaining = (transactions: CreditTransaction[]) => recomputeBalance(transactions, countsAll).remaining;
+
+const purchase = (credits: number, signature = 'sig1'): CreditTransaction => ({
+  id: `purchase_${signature}`,
+  type: 'purchase',
+  amount: 0.1,
+  credits,
+  token: 'SOL',
+  signature,
+  timestamp: 1,
+  status: 'confirmed',
+});
+
+const held = (cost: number, transactions: CreditTransaction[]) =>
+  [createHold('hold1', cost, { provider: 'openai', model: MODEL, conversationId: 'c1' }), ...transactions];
+
+describe('recomputeBalance', () => {
+  it('only counts credits the rule accepts', () => {
+    const transactions = [purchase(100, 'a'), purchase(50, 'b')];
+    expect(recomputeBalance(transactions, t => t.signature === 'a')).toMatchObject({ total: 100, used: 0, remaining: 100 });
+  });
+
+  it('counts a voucher grant once however often it is recorded', () => {
+    const voucher = { payload: { id: 'v1', credits: 20 } } as CreditTransaction['voucher'];
+    const grant = (id: string): CreditTransaction => ({ id, type: 'grant', amount: 0, credits: 20, timestamp: 1, voucher });
+    expect(remaining([grant('g1'), grant('g2')])).toBe(20);
+  });
+
+  it('counts a paid purchase once however often it is recorded', () => {
+    const copy = { ...purchase(100, 'a'), id: 'purchase_copy' };
+    expect(remaining([purchase(100, 'a'), copy, purchase(50, 'b')])).toBe(150);
+  });
+});
+
+describe('holds', () => {
+  it('takes the estimate off the balance while the request runs', () => {
+    expect(remaining(held(30, [purchase(100)]))).toBe(70);
+  });
+
+  it('settles at the actual cost', () => {
+    const usage = { input: 2000, output: 500 };
+    const transactions = settleHold(held(30, [purchase(100)]), 70, 'hold1', usage, 2);
+    const cost = calculateCreditCost('openai', MODEL, usage, 2);
+
+    expect(transactions.find(t => t.id === 'hold1')).toMatchObject({ credits: -cost, tokens: usage, toolRounds: 2 });
+    expect(remaining(transactions)).toBe(100 - cost);
+  });
+
+  it('caps an overrun at what the hold and the balance cover', () => {
+    const transactions = settleHold(held(5, [purchase(10)]), 5, 'hold1', { input: 1_000_000, output: 1_000_000 }, 0);
+    expect(remaining(transactions)).toBe(0);
+  });
+
+  it('leaves the history alone when settling an unknown hold', () => {
+    const transactions = held(30, [purchase(100)]);
+    expect(settleHold(transactions, 70, 'missing', undefined, 0)).toBe(transactions);
+  });
+
+  it('refunds a hold in full', () => {
+    const transactions = refundHold(held(30, [purchase(100)]), 'hold1');
+    expect(transactions[0]).toMatchObject({ id: 'hold1_refund', type: 'refund', credits: 30, conversationId: 'c1' });
+    expect(remaining(transactions)).toBe(100);
+  });
+
+  it('refunds a hold only once', () => {
+    const refunded = refundHold(held(30, [purchase(100)]), 'hold1');
+    expect(refundHold(refunded, 'hold1')).toBe(refunded);
+  });
+
+  it('charges at least the minimum for a request that reported no usage', () => {
+    const transactions = settleHold(held(30, [purchase(100)]), 70, 'hold1', undefined, 0);
+    expect(remaining(transactions)).toBe(100 - MIN_REQUEST_CREDITS);
+  });
+});
+
+describe('mergePurchases', () => {
+  it('confirms recorded purchases and adds ones this install never saw', () => {
+    const pending = { ...purchase(100, 'a'), status: 'pending' as const };
+    const merged = mergePurchases([pending], [purchase(100, 'a'), purchase(50, 'b')]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged.find(t => t.signature === 'a')).toMatchObject({ id: pending.id, status: 'confirmed' });
+    expect(merged.some(t => t.signature === 'b')).toBe(true);
+  });
+});
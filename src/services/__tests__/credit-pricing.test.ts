@@ -0,0 +1,80 @@
+import { AI_PROVIDERS } from '../ai-providers';
+import {
+  CREDIT_MARKUP,
+  ESTIMATED_REPLY_TOKENS,
+  MIN_REQUEST_CREDITS,
+  TOOL_ROUND_CREDITS,
+  USD_PER_CREDIT,
+  calculateCreditCost,
+  estimateCreditCost,
+  estimateTokens,
+  validateModelPricing,
+} from '../credit-pricing';
+import { AIProvider } from '../../types';
+
+describe('validateModelPricing', () => {
+  it('finds pricing for every model in AI_PROVIDERS', () => {
+    expect(() => validateModelPricing()).not.toThrow();
+  });
+
+  it('prices every model with positive per-token rates', () => {
+    for (const provider of Object.keys(AI_PROVIDERS) as AIProvider[]) {
+      for (const model of AI_PROVIDERS[provider].models) {
+        expect(model.pricing?.input).toBeGreaterThan(0);
+        expect(model.pricing?.output).toBeGreaterThan(0);
+      }
+    }
+  });
+});
+
+describe('calculateCreditCost', () => {
+  const { id: model, pricing } = AI_PROVIDERS.claude.models[0];
+
+  it('charges the marked-up provider price in credits', () => {
+    const usage = { input: 1_000_000, output: 1_000_000 };
+    const usd = pricing!.input + pricing!.output;
+    expect(calculateCreditCost('claude', model, usage, 0)).toBe(Math.ceil(usd * CREDIT_MARKUP / USD_PER_CREDIT));
+  });
+
+  it('charges the minimum for tiny or missing usage', () => {
+    expect(calculateCreditCost('claude', model, { input: 1, output: 1 }, 0)).toBe(MIN_REQUEST_CREDITS);
+    expect(calculateCreditCost('claude', model, undefined, 0)).toBe(MIN_REQUEST_CREDITS);
+  });
+
+  it('adds a charge for each tool round', () => {
+    const usage = { input: 5000, output: 2000 };
+    const base = calculateCreditCost('claude', model, usage, 0);
+    expect(calculateCreditCost('claude', model, usage, 3)).toBe(base + 3 * TOOL_ROUND_CREDITS);
+  });
+
+  it("doesn't round an exact number of credits up", () => {
+    // $0.20 of gpt-4o input is 30 credits at the default markup, though the float math lands just over
+    expect(calculateCreditCost('openai', 'gpt-4o', { input: 80_000, output: 0 }, 0)).toBe(30);
+  });
+
+  it('refuses models without pricing', () => {
+    expect(() => calculateCreditCost('claude', 'unknown-model', { input: 10, output: 10 }, 0)).toThrow(/no pricing/);
+  });
+});
+
+describe('estimateCreditCost', () => {
+  const { id: model } = AI_PROVIDERS.openai.models[0];
+
+  it('assumes a typical reply length', () => {
+    expect(estimateCreditCost('openai', model, 2000)).toBe(
+      calculateCreditCost('openai', model, { input: 2000, output: ESTIMATED_REPLY_TOKENS }, 0)
+    );
+  });
+
+  it('grows with the prompt', () => {
+    expect(estimateCreditCost('openai', model, 500_000)).toBeGreaterThan(estimateCreditCost('openai', model, 0));
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token, rounding up', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
@@ -0,0 +1,83 @@
+import { KeyValueStore, PersistedSchema, loadPersisted } from '../../utils/persistence';
+import {
+  APP_SETTINGS_SCHEMA,
+  CREDIT_TRANSACTIONS_SCHEMA,
+  DEFAULT_SETTINGS,
+  NETWORK_SETTINGS_SCHEMA,
+  TOKEN_METADATA_SCHEMA,
+} from '../persisted-state';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Loads a schema from a raw stored value, kept in memory rather than the schema's own store
+const loadRaw = <T>(schema: PersistedSchema<T>, raw: unknown): Promise<T> => {
+  const store: KeyValueStore = {
+    getItem: async (key) => (key === schema.key ? JSON.stringify(raw) : null),
+    setItem: async () => true,
+  };
+  return loadPersisted({ ...schema, store });
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('APP_SETTINGS_SCHEMA', () => {
+  it('fills in settings added since an unversioned save', async () => {
+    const settings = await loadRaw(APP_SETTINGS_SCHEMA, { defaultProvider: 'openai', theme: 'light', hapticFeedback: false });
+
+    expect(settings).toMatchObject({
+      defaultProvider: 'openai',
+      theme: 'light',
+      streamResponses: DEFAULT_SETTINGS.streamResponses,
+      spendingLimits: DEFAULT_SETTINGS.spendingLimits,
+    });
+  });
+
+  it('adds spending limits to version 1 settings', async () => {
+    const { apiKeys, spendingLimits, ...v1 } = DEFAULT_SETTINGS;
+    const settings = await loadRaw(APP_SETTINGS_SCHEMA, { version: 1, data: v1 });
+    expect(settings.spendingLimits).toEqual(DEFAULT_SETTINGS.spendingLimits);
+  });
+
+  it('falls back to the defaults for an unknown provider', async () => {
+    const { apiKeys, ...defaults } = DEFAULT_SETTINGS;
+    const settings = await loadRaw(APP_SETTINGS_SCHEMA, { version: 2, data: { ...defaults, defaultProvider: 'nope' } });
+    expect(settings.defaultProvider).toBe(DEFAULT_SETTINGS.defaultProvider);
+  });
+});
+
+describe('NETWORK_SETTINGS_SCHEMA', () => {
+  it('merges unversioned settings over the defaults', async () => {
+    expect(await loadRaw(NETWORK_SETTINGS_SCHEMA, { customUrl: 'https://rpc.example.com' })).toEqual({
+      cluster: 'mainnet',
+      customUrl: 'https://rpc.example.com',
+    });
+  });
+
+  it('rejects headers that aren\'t strings', async () => {
+    const raw = { version: 1, data: { cluster: 'custom', customUrl: 'https://rpc.example.com', customHeaders: { 'x-key': 1 } } };
+    expect(await loadRaw(NETWORK_SETTINGS_SCHEMA, raw)).toEqual({ cluster: 'mainnet' });
+  });
+});
+
+describe('TOKEN_METADATA_SCHEMA', () => {
+  it('clears metadata cached before it was kept per cluster', async () => {
+    const raw = { version: 1, data: { So11111111111111111111111111111111111111112: { symbol: 'SOL' } } };
+    expect(await loadRaw(TOKEN_METADATA_SCHEMA, raw)).toEqual({});
+  });
+});
+
+describe('CREDIT_TRANSACTIONS_SCHEMA', () => {
+  it('keeps valid entries and drops the rest', async () => {
+    const usage = { id: 'u1', type: 'usage', amount: 0, credits: -5, timestamp: 1, provider: 'claude' };
+    const raw = { version: 1, data: [usage, { ...usage, id: 'u2', type: 'gift' }, { ...usage, id: 'u3', credits: '5' }] };
+    expect(await loadRaw(CREDIT_TRANSACTIONS_SCHEMA, raw)).toEqual([usage]);
+  });
+});
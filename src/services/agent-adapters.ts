@@ -0,0 +1,559 @@
+import { AIProvider, Message, TokenUsage } from '../types';
+import { AgentAdapter, AgentTurn, AgentTurnRequest, ToolCall, ToolDefinition, ToolResult } from './agent-runner';
+import { streamSSE, SSERequestInit } from '../utils/sse';
+import { fromChatCompletionUsage, fromClaudeUsage, fromGeminiUsage } from './usage';
+import { PROVIDER_ORIGINS } from './ai-providers';
+
+export interface AgentAdapterConfig {
+  messages: Message[];
+  model: string;
+  apiKey: string;
+  systemPrompt: string;
+  tools: ToolDefinition[];
+  // Provider API origin, overridden to send requests through the credits relay
+  origin?: string;
+}
+
+// Non-streaming JSON request with the providers' shared error shape
+async function requestJSON(url: string, init: SSERequestInit, errorMessage: string): Promise<any> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    // Proxies and gateways may answer with an HTML or empty body
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error?.message || `${errorMessage} (${response.status})`);
+  }
+
+  return response.json();
+}
+
+// Tool arguments arrive as a JSON string; tolerate empty or malformed payloads
+const parseArguments = (args?: string): Record<string, any> => {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+};
+
+interface ReplayRound {
+  text: string;
+  toolCalls: ToolCall[];
+  results: ToolResult[];
+}
+
+// Split a stored assistant message back into the rounds the model produced
+const toRounds = (message: Message): ReplayRound[] => {
+  if (!message.parts?.length) {
+    return message.content ? [{ text: message.content, toolCalls: [], results: [] }] : [];
+  }
+
+  const rounds: ReplayRound[] = [];
+  let current: ReplayRound = { text: '', toolCalls: [], results: [] };
+
+  for (const part of message.parts) {
+    if (part.type === 'tool_result') {
+      current.results.push({
+        id: part.toolCallId,
+        name: part.name,
+        content: part.content,
+        isError: !!part.isError,
+      });
+      continue;
+    }
+
+    // Anything after a round's results belongs to the next round
+    if (current.results.length > 0) {
+      rounds.push(current);
+      current = { text: '', toolCalls: [], results: [] };
+    }
+
+    if (part.type === 'text') {
+      current.text += part.text;
+    } else {
+      current.toolCalls.push({ id: part.id, name: part.name, input: part.input });
+    }
+  }
+  rounds.push(current);
+
+  // Providers reject calls without results, e.g. when generation was stopped mid-tool
+  return rounds
+    .map((round) => {
+      const answered = new Set(round.results.map((result) => result.id));
+      const toolCalls = round.toolCalls.filter((call) => answered.has(call.id));
+      const results = round.results.filter((result) => toolCalls.some((call) => call.id === result.id));
+      return { text: round.text, toolCalls, results };
+    })
+    .filter((round) => round.text || round.toolCalls.length > 0);
+};
+
+// Rebuild a Claude message (content blocks + stop_reason) from its event stream
+async function streamClaudeMessage(
+  url: string,
+  init: SSERequestInit,
+  onText: (text: string) => void
+): Promise<{ content: any[]; stop_reason: string | null; usage: any }> {
+  const content: any[] = [];
+  const toolInputs: Record<number, string> = {};
+  let stopReason: string | null = null;
+  const usage = { input_tokens: 0, output_tokens: 0 };
+
+  await streamSSE(url, init, (event) => {
+    const payload = JSON.parse(event.data);
+
+    switch (payload.type) {
+      case 'message_start':
+        usage.input_tokens = payload.message?.usage?.input_tokens || 0;
+        break;
+      case 'content_block_start':
+        content[payload.index] = { ...payload.content_block };
+        if (payload.content_block.type === 'tool_use') {
+          toolInputs[payload.index] = '';
+        }
+        break;
+      case 'content_block_delta':
+        if (payload.delta.type === 'text_delta') {
+          content[payload.index].text += payload.delta.text;
+          onText(payload.delta.text);
+        } else if (payload.delta.type === 'input_json_delta') {
+          toolInputs[payload.index] += payload.delta.partial_json;
+        }
+        break;
+      case 'content_block_stop':
+        if (payload.index in toolInputs) {
+          content[payload.index].input = parseArguments(toolInputs[payload.index]);
+        }
+        break;
+      case 'message_delta':
+        stopReason = payload.delta?.stop_reason ?? stopReason;
+        usage.output_tokens = payload.usage?.output_tokens ?? usage.output_tokens;
+        break;
+      case 'error':
+        throw new Error(payload.error?.message || 'Claude API error');
+    }
+  }, 'Claude API error');
+
+  // Claude rejects empty text blocks when they're sent back in the next round
+  return {
+    content: content.filter((block) => block && !(block.type === 'text' && !block.text)),
+    stop_reason: stopReason,
+    usage,
+  };
+}
+
+// Rebuild an OpenAI-compatible assistant message from streamed chat chunks
+async function streamChatCompletion(
+  url: string,
+  init: SSERequestInit,
+  onText: (text: string) => void,
+  errorMessage: string
+): Promise<{ message: any; usage?: TokenUsage }> {
+  let content = '';
+  const toolCalls: any[] = [];
+  let usage: TokenUsage | undefined;
+
+  await streamSSE(url, init, (event) => {
+    if (event.data === '[DONE]') return;
+
+    const chunk = JSON.parse(event.data);
+    // Usage arrives on a final chunk with no choices
+    usage = fromChatCompletionUsage(chunk.usage) ?? usage;
+
+    const delta = chunk.choices?.[0]?.delta;
+    if (!delta) return;
+
+    if (delta.content) {
+      content += delta.content;
+      onText(delta.content);
+    }
+
+    for (const call of delta.tool_calls || []) {
+      if (!toolCalls[call.index]) {
+        toolCalls[call.index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+      }
+      const toolCall = toolCalls[call.index];
+      if (call.id) toolCall.id = call.id;
+      if (call.function?.name) toolCall.function.name += call.function.name;
+      if (call.function?.arguments) toolCall.function.arguments += call.function.arguments;
+    }
+  }, errorMessage);
+
+  return {
+    message: {
+      role: 'assistant',
+      content: content || null,
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+    },
+    usage,
+  };
+}
+
+// Rebuild a Gemini candidate from streamGenerateContent chunks
+async function streamGeminiCandidate(
+  url: string,
+  init: SSERequestInit,
+  onText: (text: string) => void
+): Promise<any> {
+  const parts: any[] = [];
+  let usageMetadata: any;
+
+  await streamSSE(url, init, (event) => {
+    const chunk = JSON.parse(event.data);
+    // Each chunk carries the running totals; keep the latest
+    usageMetadata = chunk.usageMetadata ?? usageMetadata;
+
+    const chunkParts = chunk.candidates?.[0]?.content?.parts || [];
+
+    for (const part of chunkParts) {
+      if (typeof part.text === 'string' && !part.functionCall) {
+        // Merge consecutive text chunks into a single part
+        const last = parts[parts.length - 1];
+        if (last && typeof last.text === 'string') {
+          last.text += part.text;
+        } else {
+          parts.push({ text: part.text });
+        }
+        onText(part.text);
+      } else {
+        parts.push(part);
+      }
+    }
+  }, 'Gemini API error');
+
+  return { content: { role: 'model', parts }, usageMetadata };
+}
+
+// Claude tool use
+export class ClaudeAgentAdapter implements AgentAdapter {
+  private baseUrl: string;
+  private messages: any[];
+  private tools: any[];
+
+  constructor(private config: AgentAdapterConfig) {
+    this.baseUrl = `${config.origin ?? PROVIDER_ORIGINS.claude}/v1/messages`;
+    this.tools = config.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    }));
+
+    this.messages = [];
+    for (const m of config.messages) {
+      if (m.role === 'system') continue;
+      if (m.role === 'user') {
+        this.messages.push({ role: 'user', content: m.content });
+        continue;
+      }
+
+      for (const round of toRounds(m)) {
+        this.messages.push({
+          role: 'assistant',
+          content: [
+            ...(round.text ? [{ type: 'text', text: round.text }] : []),
+            ...round.toolCalls.map((call) => ({
+              type: 'tool_use',
+              id: call.id,
+              name: call.name,
+              input: call.input,
+            })),
+          ],
+        });
+        if (round.results.length > 0) {
+          this.messages.push({ role: 'user', content: round.results.map(this.toToolResultBlock) });
+        }
+      }
+    }
+  }
+
+  private toToolResultBlock(result: ToolResult) {
+    return {
+      type: 'tool_result',
+      tool_use_id: result.id,
+      content: result.content,
+      ...(result.isError && { is_error: true }),
+    };
+  }
+
+  async requestTurn({ allowTools, stream, signal, onText }: AgentTurnRequest): Promise<AgentTurn> {
+    const init = {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        max_tokens: 4096,
+        system: this.config.systemPrompt,
+        tools: this.tools,
+        tool_choice: { type: allowTools ? 'auto' : 'none' },
+        messages: this.messages,
+        stream,
+      }),
+    };
+
+    let data;
+    if (stream) {
+      data = await streamClaudeMessage(this.baseUrl, init, onText);
+    } else {
+      data = await requestJSON(this.baseUrl, init, 'Claude API error');
+      data.content
+        .filter((block: any) => block.type === 'text')
+        .forEach((block: any) => onText(block.text));
+    }
+
+    const textBlocks = data.content.filter((block: any) => block.type === 'text');
+    const toolCalls: ToolCall[] = data.content
+      .filter((block: any) => block.type === 'tool_use')
+      .map((block: any) => ({ id: block.id, name: block.name, input: block.input || {} }));
+
+    return {
+      text: textBlocks.map((block: any) => block.text).join(''),
+      toolCalls,
+      raw: data.content,
+      usage: fromClaudeUsage(data.usage),
+    };
+  }
+
+  appendToolResults(turn: AgentTurn, results: ToolResult[]) {
+    this.messages.push({ role: 'assistant', content: turn.raw });
+    this.messages.push({ role: 'user', content: results.map(this.toToolResultBlock) });
+  }
+}
+
+// OpenAI-style function calling, shared by OpenAI and Doubao
+export class OpenAICompatibleAgentAdapter implements AgentAdapter {
+  private messages: any[];
+  private tools: any[];
+
+  constructor(
+    private config: AgentAdapterConfig,
+    private baseUrl: string,
+    private errorMessage: string
+  ) {
+    this.tools = config.tools.map((tool) => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+
+    this.messages = [{ role: 'system', content: config.systemPrompt }];
+    for (const m of config.messages) {
+      if (m.role === 'system') continue;
+      if (m.role === 'user') {
+        this.messages.push({ role: 'user', content: m.content });
+        continue;
+      }
+
+      for (const round of toRounds(m)) {
+        this.messages.push({
+          role: 'assistant',
+          content: round.text || null,
+          ...(round.toolCalls.length > 0 && {
+            tool_calls: round.toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.input) },
+            })),
+          }),
+        });
+        round.results.forEach((result) => this.messages.push(this.toToolMessage(result)));
+      }
+    }
+  }
+
+  private toToolMessage(result: ToolResult) {
+    return {
+      role: 'tool',
+      tool_call_id: result.id,
+      content: result.content,
+    };
+  }
+
+  async requestTurn({ allowTools, stream, signal, onText }: AgentTurnRequest): Promise<AgentTurn> {
+    const init = {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: this.messages,
+        tools: this.tools,
+        tool_choice: allowTools ? 'auto' : 'none',
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+      }),
+    };
+
+    let message;
+    let usage: TokenUsage | undefined;
+    if (stream) {
+      ({ message, usage } = await streamChatCompletion(this.baseUrl, init, onText, this.errorMessage));
+    } else {
+      const data = await requestJSON(this.baseUrl, init, this.errorMessage);
+      message = data.choices[0].message;
+      usage = fromChatCompletionUsage(data.usage);
+      onText(message.content || '');
+    }
+
+    const toolCalls: ToolCall[] = (message.tool_calls || []).map((toolCall: any) => ({
+      id: toolCall.id,
+      name: toolCall.function.name,
+      input: parseArguments(toolCall.function.arguments),
+    }));
+
+    return { text: message.content || '', toolCalls, raw: message, usage };
+  }
+
+  appendToolResults(turn: AgentTurn, results: ToolResult[]) {
+    this.messages.push(turn.raw);
+    results.forEach((result) => this.messages.push(this.toToolMessage(result)));
+  }
+}
+
+// Gemini function calling
+export class GeminiAgentAdapter implements AgentAdapter {
+  private baseUrl: string;
+  private contents: any[];
+  private tools: any;
+  private callCount = 0;
+
+  constructor(private config: AgentAdapterConfig) {
+    this.baseUrl = `${config.origin ?? PROVIDER_ORIGINS.gemini}/v1beta/models/${config.model}`;
+
+    this.tools = {
+      function_declarations: config.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      })),
+    };
+
+    this.contents = [];
+    for (const m of config.messages) {
+      if (m.role === 'system') continue;
+      if (m.role === 'user') {
+        this.contents.push({ role: 'user', parts: [{ text: m.content }] });
+        continue;
+      }
+
+      for (const round of toRounds(m)) {
+        this.contents.push({
+          role: 'model',
+          parts: [
+            ...(round.text ? [{ text: round.text }] : []),
+            ...round.toolCalls.map((call) => ({ functionCall: { name: call.name, args: call.input } })),
+          ],
+        });
+        if (round.results.length > 0) {
+          this.contents.push({ role: 'user', parts: round.results.map(this.toFunctionResponse) });
+        }
+      }
+    }
+  }
+
+  private toFunctionResponse(result: ToolResult) {
+    // functionResponse.response must be an object
+    let response;
+    try {
+      response = JSON.parse(result.content);
+    } catch {
+      response = { content: result.content };
+    }
+    return { functionResponse: { name: result.name, response } };
+  }
+
+  async requestTurn({ allowTools, stream, signal, onText }: AgentTurnRequest): Promise<AgentTurn> {
+    const init = {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: this.contents,
+        tools: [this.tools],
+        toolConfig: { functionCallingConfig: { mode: allowTools ? 'AUTO' : 'NONE' } },
+        systemInstruction: { parts: [{ text: this.config.systemPrompt }] },
+        generationConfig: {
+          maxOutputTokens: 4096,
+          temperature: 0.7,
+        },
+      }),
+    };
+
+    let candidate;
+    if (stream) {
+      candidate = await streamGeminiCandidate(
+        `${this.baseUrl}:streamGenerateContent?alt=sse&key=${this.config.apiKey}`,
+        init,
+        onText
+      );
+    } else {
+      const data = await requestJSON(
+        `${this.baseUrl}:generateContent?key=${this.config.apiKey}`,
+        init,
+        'Gemini API error'
+      );
+      candidate = { ...data.candidates?.[0], usageMetadata: data.usageMetadata };
+      candidate?.content?.parts
+        ?.filter((p: any) => p.text)
+        .forEach((p: any) => onText(p.text));
+    }
+
+    const parts = candidate?.content?.parts || [];
+
+    // Gemini function calls carry no id, so assign one for the runner to track
+    const toolCalls: ToolCall[] = parts
+      .filter((p: any) => p.functionCall)
+      .map((p: any) => ({
+        id: `gemini-${Date.now().toString(36)}-${this.callCount++}`,
+        name: p.functionCall.name,
+        input: p.functionCall.args || {},
+      }));
+
+    return {
+      text: parts.filter((p: any) => p.text).map((p: any) => p.text).join(''),
+      toolCalls,
+      raw: parts,
+      usage: fromGeminiUsage(candidate?.usageMetadata),
+    };
+  }
+
+  appendToolResults(turn: AgentTurn, results: ToolResult[]) {
+    this.contents.push({ role: 'model', parts: turn.raw });
+    this.contents.push({ role: 'user', parts: results.map(this.toFunctionResponse) });
+  }
+}
+
+// Factory to get the right adapter
+export function createAgentAdapter(provider: AIProvider, config: AgentAdapterConfig): AgentAdapter {
+  switch (provider) {
+    case 'claude':
+      return new ClaudeAgentAdapter(config);
+    case 'openai':
+      return new OpenAICompatibleAgentAdapter(
+        config,
+        `${config.origin ?? PROVIDER_ORIGINS.openai}/v1/chat/completions`,
+        'OpenAI API error'
+      );
+    case 'gemini':
+      return new GeminiAgentAdapter(config);
+    case 'doubao':
+      // Doubao (via Volcano Engine) uses the OpenAI-compatible format
+      return new OpenAICompatibleAgentAdapter(
+        config,
+        `${config.origin ?? PROVIDER_ORIGINS.doubao}/api/v3/chat/completions`,
+        'Doubao API error'
+      );
+    default:
+      throw new Error(`Unknown provider: ${provider}`);
+  }
+}
@@ -0,0 +1,280 @@
+import { MessagePart, TokenUsage } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { addUsage } from './usage';
+
+// Provider-agnostic agent loop: request a turn, run the tools it asks for, repeat
+
+export const DEFAULT_MAX_ITERATIONS = 8;
+export const DEFAULT_TOOL_TIMEOUT_MS = 20000;
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+export interface ToolResult {
+  id: string;
+  name: string;
+  content: string;
+  isError: boolean;
+}
+
+// One model response, normalized from the provider's wire format
+export interface AgentTurn {
+  text: string;
+  toolCalls: ToolCall[];
+  raw: any; // Native assistant message, replayed by the adapter
+  usage?: TokenUsage;
+}
+
+export interface AgentTurnRequest {
+  allowTools: boolean;
+  stream: boolean;
+  signal?: AbortSignal;
+  onText: (text: string) => void;
+}
+
+// Each provider implements this to translate between its API and the runner
+export interface AgentAdapter {
+  requestTurn(request: AgentTurnRequest): Promise<AgentTurn>;
+  appendToolResults(turn: AgentTurn, results: ToolResult[]): void;
+}
+
+// Progress events emitted while an agent run is in flight
+export type AgentEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_start'; id: string; name: string; input: Record<string, any>; iteration: number }
+  | { type: 'tool_end'; id: string; name: string; result: string; isError: boolean }
+  | { type: 'usage'; usage: TokenUsage } // Per model request, so callers can account for partial runs
+  | { type: 'part'; part: MessagePart }; // Each part once recorded, so a stopped run can keep them
+
+export type AgentTraceStep =
+  | { type: 'model'; iteration: number; toolCalls: number; durationMs: number; usage?: TokenUsage }
+  | {
+      type: 'tool';
+      iteration: number;
+      id: string;
+      name: string;
+      input: Record<string, any>;
+      result: string;
+      isError: boolean;
+      timedOut: boolean;
+      durationMs: number;
+    };
+
+export interface AgentTrace {
+  steps: AgentTraceStep[];
+  iterations: number;
+  stopReason: 'complete' | 'max_iterations' | 'stopped'; // stopped: continueRun declined another round
+  durationMs: number;
+}
+
+export interface AgentRunOptions {
+  executeTool: (name: string, input: Record<string, any>, signal?: AbortSignal) => Promise<string>;
+  stream?: boolean;
+  signal?: AbortSignal;
+  onEvent?: (event: AgentEvent) => void;
+  maxIterations?: number;
+  toolTimeoutMs?: number;
+  // Asked before each model request that follows tool calls, with the usage so far;
+  // resolve false to end the run with the reply as it stands
+  continueRun?: (usage: TokenUsage | undefined) => Promise<boolean>;
+}
+
+export interface AgentRunResult {
+  text: string;
+  parts: MessagePart[];
+  usage?: TokenUsage; // Summed across all rounds
+  trace: AgentTrace;
+}
+
+// Collects reply text across rounds and forwards each delta to the listener
+const createReplyCollector = (onEvent?: (event: AgentEvent) => void) => {
+  let text = '';
+  let roundHasText = false;
+
+  return {
+    startRound() {
+      roundHasText = false;
+    },
+    append(delta: string) {
+      if (!delta) return;
+      // Separate prose from earlier rounds with a paragraph break
+      const chunk = !roundHasText && text ? `\n\n${delta}` : delta;
+      roundHasText = true;
+      text += chunk;
+      onEvent?.({ type: 'text', text: chunk });
+    },
+    get text() {
+      return text;
+    },
+  };
+};
+
+// Resolve to null if the work hasn't settled within the timeout. The work gets its own signal,
+// aborted with the parent's or when the timeout fires, so timed-out work stops too.
+const withTimeout = <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  parent?: AbortSignal
+): Promise<T | null> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  parent?.addEventListener('abort', onAbort);
+  if (parent?.aborted) controller.abort();
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => {
+      resolve(null);
+      controller.abort();
+    }, ms);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onAbort);
+  });
+};
+
+const isErrorResult = (result: string): boolean => {
+  try {
+    const parsed = JSON.parse(result);
+    return !!parsed && typeof parsed === 'object' && 'error' in parsed;
+  } catch {
+    return false;
+  }
+};
+
+export async function runAgent(adapter: AgentAdapter, options: AgentRunOptions): Promise<AgentRunResult> {
+  const {
+    executeTool,
+    stream = false,
+    signal,
+    onEvent,
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+    toolTimeoutMs = DEFAULT_TOOL_TIMEOUT_MS,
+    continueRun,
+  } = options;
+
+  const reply = createReplyCollector(onEvent);
+  const parts: MessagePart[] = [];
+  const steps: AgentTraceStep[] = [];
+  const startedAt = Date.now();
+  let usage: TokenUsage | undefined;
+
+  const addPart = (part: MessagePart) => {
+    parts.push(part);
+    onEvent?.({ type: 'part', part });
+  };
+
+  const runToolCall = async (call: ToolCall, iteration: number): Promise<ToolResult> => {
+    const toolStartedAt = Date.now();
+    onEvent?.({ type: 'tool_start', id: call.id, name: call.name, input: call.input, iteration });
+
+    const output = await withTimeout(
+      (toolSignal) => executeTool(call.name, call.input, toolSignal),
+      toolTimeoutMs,
+      signal
+    );
+    const timedOut = output === null;
+    const content = timedOut
+      ? JSON.stringify({ error: `${call.name} timed out after ${toolTimeoutMs / 1000}s` })
+      : output;
+    const isError = timedOut || isErrorResult(content);
+
+    steps.push({
+      type: 'tool',
+      iteration,
+      id: call.id,
+      name: call.name,
+      input: call.input,
+      result: content,
+      isError,
+      timedOut,
+      durationMs: Date.now() - toolStartedAt,
+    });
+    onEvent?.({ type: 'tool_end', id: call.id, name: call.name, result: content, isError });
+
+    return { id: call.id, name: call.name, content, isError };
+  };
+
+  let iteration = 0;
+  let stopReason: AgentTrace['stopReason'] = 'complete';
+
+  while (true) {
+    throwIfAborted(signal);
+
+    if (iteration > 0 && continueRun && !(await continueRun(usage))) {
+      stopReason = 'stopped';
+      break;
+    }
+
+    // Once the cap is reached, ask for a final answer with tools disabled
+    const allowTools = iteration < maxIterations;
+    if (!allowTools) {
+      stopReason = 'max_iterations';
+    }
+
+    reply.startRound();
+    const requestStartedAt = Date.now();
+    const turn = await adapter.requestTurn({ allowTools, stream, signal, onText: reply.append });
+
+    steps.push({
+      type: 'model',
+      iteration,
+      toolCalls: turn.toolCalls.length,
+      durationMs: Date.now() - requestStartedAt,
+      usage: turn.usage,
+    });
+    iteration++;
+
+    if (turn.usage) {
+      usage = addUsage(usage, turn.usage);
+      onEvent?.({ type: 'usage', usage: turn.usage });
+    }
+
+    if (turn.text) {
+      addPart({ type: 'text', text: turn.text });
+    }
+
+    if (!allowTools || turn.toolCalls.length === 0) break;
+
+    // Tools within a turn are independent, so run them in parallel
+    const results = await Promise.all(turn.toolCalls.map((call) => runToolCall(call, iteration - 1)));
+    throwIfAborted(signal);
+
+    for (const call of turn.toolCalls) {
+      addPart({ type: 'tool_call', id: call.id, name: call.name, input: call.input });
+    }
+    for (const result of results) {
+      addPart({
+        type: 'tool_result',
+        toolCallId: result.id,
+        name: result.name,
+        content: result.content,
+        isError: result.isError,
+      });
+    }
+
+    adapter.appendToolResults(turn, results);
+  }
+
+  return {
+    text: reply.text,
+    parts,
+    usage,
+    trace: {
+      steps,
+      iterations: iteration,
+      stopReason,
+      durationMs: Date.now() - startedAt,
+    },
+  };
+}
@@ -1,4 +1,15 @@
-import { AIProvider, AIProviderConfig, Message } from '../types';
+import { AIModel, AIProvider, AIProviderConfig, Message, ModelPricing, TokenUsage } from '../types';
+import { streamSSE } from '../utils/sse';
+import { fromChatCompletionUsage, fromClaudeUsage, fromGeminiUsage } from './usage';
+import { getRelayOrigin } from './relay';
+import PRICING from './pricing.json';
+
+// Per-token prices live in pricing.json, which relay/server.mjs charges from too
+const MODEL_PRICING: Record<string, Record<string, ModelPricing>> = PRICING.models;
+
+// Each model's pricing, from pricing.json
+const priced = (provider: AIProvider, models: Omit<AIModel, 'pricing'>[]): AIModel[] =>
+  models.map(model => ({ ...model, pricing: MODEL_PRICING[provider]?.[model.id] }));
 
 // Provider configurations
 export const AI_PROVIDERS: Record<AIProvider, AIProviderConfig> = {
@@ -8,11 +19,11 @@ export const AI_PROVIDERS: Record<AIProvider, AIProviderConfig> = {
     description: 'Anthropic\'s Claude - Advanced reasoning and analysis',
     icon: '🟣',
     color: '#8B5CF6',
-    models: [
+    models: priced('claude', [
       { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', contextWindow: 200000 },
       { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', contextWindow: 200000 },
       { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', contextWindow: 200000 },
-    ],
+    ]),
   },
   openai: {
     id: 'openai',
@@ -20,12 +31,12 @@ export const AI_PROVIDERS: Record<AIProvider, AIProviderConfig> = {
     description: 'GPT models - Versatile and widely capable',
     icon: '🟢',
     color: '#10B981',
-    models: [
+    models: priced('openai', [
       { id: 'gpt-4o', name: 'GPT-4o', contextWindow: 128000 },
       { id: 'gpt-4o-mini', name: 'GPT-4o Mini', contextWindow: 128000 },
       { id: 'o1', name: 'o1', contextWindow: 200000 },
       { id: 'o1-mini', name: 'o1-mini', contextWindow: 128000 },
-    ],
+    ]),
   },
   gemini: {
     id: 'gemini',
@@ -33,11 +44,11 @@ export const AI_PROVIDERS: Record<AIProvider, AIProviderConfig> = {
     description: 'Google\'s Gemini - Multimodal understanding',
     icon: '🔵',
     color: '#3B82F6',
-    models: [
+    models: priced('gemini', [
       { id: 'gemini-2.0-flash-exp', name: 'Gemini 2.0 Flash', contextWindow: 1000000 },
       { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', contextWindow: 2000000 },
       { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', contextWindow: 1000000 },
-    ],
+    ]),
   },
   doubao: {
     id: 'doubao',
@@ -45,14 +56,26 @@ export const AI_PROVIDERS: Record<AIProvider, AIProviderConfig> = {
     description: 'ByteDance\'s Doubao - Cost-effective Chinese & English',
     icon: '🔴',
     color: '#EF4444',
-    models: [
+    // Billed in CNY; pricing.json has it converted to USD
+    models: priced('doubao', [
       { id: 'doubao-1.5-pro-32k', name: 'Doubao 1.5 Pro', contextWindow: 32000 },
       { id: 'doubao-1.5-lite-32k', name: 'Doubao 1.5 Lite', contextWindow: 32000 },
       { id: 'doubao-pro-256k', name: 'Doubao Pro 256k', contextWindow: 256000 },
-    ],
+    ]),
   },
 };
 
+export const getModelPricing = (provider: AIProvider, model: string): AIModel['pricing'] =>
+  AI_PROVIDERS[provider]?.models.find(m => m.id === model)?.pricing;
+
+// Provider API origins. The credits relay serves the same paths under its own origin.
+export const PROVIDER_ORIGINS: Record<AIProvider, string> = {
+  claude: 'https://api.anthropic.com',
+  openai: 'https://api.openai.com',
+  gemini: 'https://generativelanguage.googleapis.com',
+  doubao: 'https://ark.cn-beijing.volces.com',
+};
+
 // System prompt for Solana-aware AI
 export const SOLANA_SYSTEM_PROMPT = `You are a helpful AI assistant integrated into a Solana mobile wallet app on the Solana Seeker device.
 
@@ -67,17 +90,32 @@ When the user's wallet is connected, you can see their wallet address and SOL ba
 
 Be concise and mobile-friendly in your responses. Use clear formatting when explaining complex topics.`;
 
+export interface AIResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
 // Abstract AI service interface
 export interface AIService {
-  chat(messages: Message[], model: string, apiKey: string): Promise<string>;
-  stream?(messages: Message[], model: string, apiKey: string, onChunk: (chunk: string) => void): Promise<void>;
+  chat(messages: Message[], model: string, apiKey: string, signal?: AbortSignal): Promise<AIResponse>;
+  stream?(
+    messages: Message[],
+    model: string,
+    apiKey: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse>;
 }
 
 // Claude Service
 export class ClaudeService implements AIService {
-  private baseUrl = 'https://api.anthropic.com/v1/messages';
+  private baseUrl: string;
+
+  constructor(origin = PROVIDER_ORIGINS.claude) {
+    this.baseUrl = `${origin}/v1/messages`;
+  }
 
-  async chat(messages: Message[], model: string, apiKey: string): Promise<string> {
+  private buildRequest(messages: Message[], model: string, apiKey: string, stream: boolean, signal?: AbortSignal) {
     const formattedMessages = messages
       .filter(m => m.role !== 'system')
       .map(m => ({
@@ -87,8 +125,9 @@ export class ClaudeService implements AIService {
 
     const systemMessage = messages.find(m => m.role === 'system')?.content || SOLANA_SYSTEM_PROMPT;
 
-    const response = await fetch(this.baseUrl, {
+    return {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': apiKey,
@@ -99,8 +138,13 @@ export class ClaudeService implements AIService {
         max_tokens: 4096,
         system: systemMessage,
         messages: formattedMessages,
+        stream,
       }),
-    });
+    };
+  }
+
+  async chat(messages: Message[], model: string, apiKey: string, signal?: AbortSignal): Promise<AIResponse> {
+    const response = await fetch(this.baseUrl, this.buildRequest(messages, model, apiKey, false, signal));
 
     if (!response.ok) {
       const error = await response.json();
@@ -108,15 +152,49 @@ export class ClaudeService implements AIService {
     }
 
     const data = await response.json();
-    return data.content[0].text;
+    return { text: data.content[0].text, usage: fromClaudeUsage(data.usage) };
+  }
+
+  async stream(
+    messages: Message[],
+    model: string,
+    apiKey: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    await streamSSE(this.baseUrl, this.buildRequest(messages, model, apiKey, true, signal), (event) => {
+      const payload = JSON.parse(event.data);
+
+      if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+        text += payload.delta.text;
+        onChunk(payload.delta.text);
+      } else if (payload.type === 'message_start') {
+        inputTokens = payload.message?.usage?.input_tokens || 0;
+      } else if (payload.type === 'message_delta') {
+        // output_tokens is cumulative
+        outputTokens = payload.usage?.output_tokens ?? outputTokens;
+      } else if (payload.type === 'error') {
+        throw new Error(payload.error?.message || 'Claude API error');
+      }
+    }, 'Claude API error');
+
+    return { text, usage: { input: inputTokens, output: outputTokens } };
   }
 }
 
 // OpenAI Service
 export class OpenAIService implements AIService {
-  private baseUrl = 'https://api.openai.com/v1/chat/completions';
+  private baseUrl: string;
 
-  async chat(messages: Message[], model: string, apiKey: string): Promise<string> {
+  constructor(origin = PROVIDER_ORIGINS.openai) {
+    this.baseUrl = `${origin}/v1/chat/completions`;
+  }
+
+  private buildRequest(messages: Message[], model: string, apiKey: string, stream: boolean, signal?: AbortSignal) {
     const formattedMessages = messages.map(m => ({
       role: m.role,
       content: m.content,
@@ -127,8 +205,9 @@ export class OpenAIService implements AIService {
       formattedMessages.unshift({ role: 'system', content: SOLANA_SYSTEM_PROMPT });
     }
 
-    const response = await fetch(this.baseUrl, {
+    return {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${apiKey}`,
@@ -137,8 +216,14 @@ export class OpenAIService implements AIService {
         model,
         messages: formattedMessages,
         max_tokens: 4096,
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
       }),
-    });
+    };
+  }
+
+  async chat(messages: Message[], model: string, apiKey: string, signal?: AbortSignal): Promise<AIResponse> {
+    const response = await fetch(this.baseUrl, this.buildRequest(messages, model, apiKey, false, signal));
 
     if (!response.ok) {
       const error = await response.json();
@@ -146,15 +231,46 @@ export class OpenAIService implements AIService {
     }
 
     const data = await response.json();
-    return data.choices[0].message.content;
+    return { text: data.choices[0].message.content, usage: fromChatCompletionUsage(data.usage) };
+  }
+
+  async stream(
+    messages: Message[],
+    model: string,
+    apiKey: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    let text = '';
+    let usage: TokenUsage | undefined;
+
+    await streamSSE(this.baseUrl, this.buildRequest(messages, model, apiKey, true, signal), (event) => {
+      if (event.data === '[DONE]') return;
+
+      const chunk = JSON.parse(event.data);
+      // Usage arrives on a final chunk with no choices
+      usage = fromChatCompletionUsage(chunk.usage) ?? usage;
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        onChunk(delta.content);
+      }
+    }, 'OpenAI API error');
+
+    return { text, usage };
   }
 }
 
 // Gemini Service
 export class GeminiService implements AIService {
-  private baseUrl = 'https://generativelanguage.googleapis.com/v1beta/models';
+  private baseUrl: string;
+
+  constructor(origin = PROVIDER_ORIGINS.gemini) {
+    this.baseUrl = `${origin}/v1beta/models`;
+  }
 
-  async chat(messages: Message[], model: string, apiKey: string): Promise<string> {
+  private buildRequest(messages: Message[], signal?: AbortSignal) {
     const contents = messages
       .filter(m => m.role !== 'system')
       .map(m => ({
@@ -164,22 +280,27 @@ export class GeminiService implements AIService {
 
     const systemInstruction = messages.find(m => m.role === 'system')?.content || SOLANA_SYSTEM_PROMPT;
 
+    return {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents,
+        systemInstruction: { parts: [{ text: systemInstruction }] },
+        generationConfig: {
+          maxOutputTokens: 4096,
+          temperature: 0.7,
+        },
+      }),
+    };
+  }
+
+  async chat(messages: Message[], model: string, apiKey: string, signal?: AbortSignal): Promise<AIResponse> {
     const response = await fetch(
       `${this.baseUrl}/${model}:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents,
-          systemInstruction: { parts: [{ text: systemInstruction }] },
-          generationConfig: {
-            maxOutputTokens: 4096,
-            temperature: 0.7,
-          },
-        }),
-      }
+      this.buildRequest(messages, signal)
     );
 
     if (!response.ok) {
@@ -188,15 +309,50 @@ export class GeminiService implements AIService {
     }
 
     const data = await response.json();
-    return data.candidates[0].content.parts[0].text;
+    return { text: data.candidates[0].content.parts[0].text, usage: fromGeminiUsage(data.usageMetadata) };
+  }
+
+  async stream(
+    messages: Message[],
+    model: string,
+    apiKey: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    let text = '';
+    let usage: TokenUsage | undefined;
+
+    await streamSSE(
+      `${this.baseUrl}/${model}:streamGenerateContent?alt=sse&key=${apiKey}`,
+      this.buildRequest(messages, signal),
+      (event) => {
+        const chunk = JSON.parse(event.data);
+        // Each chunk carries the running totals; keep the latest
+        usage = fromGeminiUsage(chunk.usageMetadata) ?? usage;
+
+        const parts = chunk.candidates?.[0]?.content?.parts || [];
+        const chunkText = parts.map((p: any) => p.text || '').join('');
+        if (chunkText) {
+          text += chunkText;
+          onChunk(chunkText);
+        }
+      },
+      'Gemini API error'
+    );
+
+    return { text, usage };
   }
 }
 
 // Doubao Service (via Volcano Engine)
 export class DoubaoService implements AIService {
-  private baseUrl = 'https://ark.cn-beijing.volces.com/api/v3/chat/completions';
+  private baseUrl: string;
 
-  async chat(messages: Message[], model: string, apiKey: string): Promise<string> {
+  constructor(origin = PROVIDER_ORIGINS.doubao) {
+    this.baseUrl = `${origin}/api/v3/chat/completions`;
+  }
+
+  private buildRequest(messages: Message[], model: string, apiKey: string, stream: boolean, signal?: AbortSignal) {
     const formattedMessages = messages.map(m => ({
       role: m.role,
       content: m.content,
@@ -206,8 +362,9 @@ export class DoubaoService implements AIService {
       formattedMessages.unshift({ role: 'system', content: SOLANA_SYSTEM_PROMPT });
     }
 
-    const response = await fetch(this.baseUrl, {
+    return {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${apiKey}`,
@@ -216,8 +373,14 @@ export class DoubaoService implements AIService {
         model,
         messages: formattedMessages,
         max_tokens: 4096,
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
       }),
-    });
+    };
+  }
+
+  async chat(messages: Message[], model: string, apiKey: string, signal?: AbortSignal): Promise<AIResponse> {
+    const response = await fetch(this.baseUrl, this.buildRequest(messages, model, apiKey, false, signal));
 
     if (!response.ok) {
       const error = await response.json();
@@ -225,22 +388,78 @@ export class DoubaoService implements AIService {
     }
 
     const data = await response.json();
-    return data.choices[0].message.content;
+    return { text: data.choices[0].message.content, usage: fromChatCompletionUsage(data.usage) };
+  }
+
+  // Doubao streams OpenAI-compatible chat chunks
+  async stream(
+    messages: Message[],
+    model: string,
+    apiKey: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    let text = '';
+    let usage: TokenUsage | undefined;
+
+    await streamSSE(this.baseUrl, this.buildRequest(messages, model, apiKey, true, signal), (event) => {
+      if (event.data === '[DONE]') return;
+
+      const chunk = JSON.parse(event.data);
+      // Usage arrives on a final chunk with no choices
+      usage = fromChatCompletionUsage(chunk.usage) ?? usage;
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        onChunk(delta.content);
+      }
+    }, 'Doubao API error');
+
+    return { text, usage };
   }
 }
 
-// Factory to get the right service
-export function getAIService(provider: AIProvider): AIService {
+// Credits mode: the same provider request, sent through the credits relay.
+// The apiKey passed in is a relay credential (see createRelayCredential), not a provider key.
+export class RelayService implements AIService {
+  private service: AIService;
+
+  constructor(provider: AIProvider) {
+    this.service = createProviderService(provider, getRelayOrigin(provider));
+  }
+
+  chat(messages: Message[], model: string, apiKey: string, signal?: AbortSignal): Promise<AIResponse> {
+    return this.service.chat(messages, model, apiKey, signal);
+  }
+
+  stream(
+    messages: Message[],
+    model: string,
+    apiKey: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    return this.service.stream!(messages, model, apiKey, onChunk, signal);
+  }
+}
+
+function createProviderService(provider: AIProvider, origin?: string): AIService {
   switch (provider) {
     case 'claude':
-      return new ClaudeService();
+      return new ClaudeService(origin);
     case 'openai':
-      return new OpenAIService();
+      return new OpenAIService(origin);
     case 'gemini':
-      return new GeminiService();
+      return new GeminiService(origin);
     case 'doubao':
-      return new DoubaoService();
+      return new DoubaoService(origin);
     default:
       throw new Error(`Unknown provider: ${provider}`);
   }
 }
+
+// Factory to get the right service; viaRelay selects the credits relay
+export function getAIService(provider: AIProvider, viaRelay = false): AIService {
+  return viaRelay ? new RelayService(provider) : createProviderService(provider);
+}
@@ -0,0 +1,387 @@
+import { Platform } from 'react-native';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { Conversation, Message } from '../types';
+import { validateConversation, validateMessage } from './persisted-state';
+import { quarantine } from '../utils/persistence';
+
+// Conversation persistence: one row per conversation and one per message,
+// so saving a reply only writes the rows that changed
+
+export interface ConversationRepository {
+  // All conversations with their messages, most recently updated first
+  loadConversations(): Promise<Conversation[]>;
+  // Upsert the conversation's metadata and the given messages (which must belong to it)
+  saveMessages(conversation: Conversation, messages: Message[]): Promise<void>;
+  deleteConversation(id: string): Promise<void>;
+  // Bulk write used when migrating history from older storage
+  importConversations(conversations: Conversation[]): Promise<void>;
+}
+
+type ConversationRecord = Omit<Conversation, 'messages'>;
+
+// Fields without their own column, stored as JSON alongside the message
+type MessageMetadata = Pick<Message, 'parts' | 'provider' | 'model' | 'tokens' | 'cost' | 'incomplete' | 'paidWithCredits'>;
+
+const toConversationRecord = ({ messages, ...record }: Conversation): ConversationRecord => record;
+
+const toMetadata = ({ parts, provider, model, tokens, cost, incomplete, paidWithCredits }: Message): MessageMetadata => ({
+  parts,
+  provider,
+  model,
+  tokens,
+  cost,
+  incomplete,
+  paidWithCredits,
+});
+
+const positionOf = (conversation: Conversation, message: Message): number => {
+  const index = conversation.messages.findIndex(m => m.id === message.id);
+  return index >= 0 ? index : conversation.messages.length;
+};
+
+// Drop records that fail validation, moving them to quarantine: once the copy is saved the
+// record is removed from storage, so the next load doesn't quarantine it again
+async function keepValid<T>(
+  items: T[],
+  validate: (item: T) => string | null,
+  remove: (item: T) => Promise<void>
+): Promise<T[]> {
+  const valid: T[] = [];
+  for (const item of items) {
+    const problem = validate(item);
+    if (!problem) {
+      valid.push(item);
+    } else if (await quarantine('conversations', JSON.stringify(item), problem)) {
+      await remove(item);
+    }
+  }
+  return valid;
+}
+
+const parseMetadata = (metadata: string | null): MessageMetadata | null => {
+  if (!metadata) return {};
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return null;
+  }
+};
+
+// SQLite (native)
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  provider: string;
+  model: string;
+  created_at: number;
+  updated_at: number;
+}
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  role: string;
+  content: string;
+  timestamp: number;
+  metadata: string | null;
+}
+
+const toMessage = (row: MessageRow, metadata: MessageMetadata): Message => ({
+  ...metadata,
+  id: row.id,
+  role: row.role as Message['role'],
+  content: row.content,
+  timestamp: row.timestamp,
+});
+
+// migrations[n] upgrades the database from PRAGMA user_version n to n + 1
+const SQLITE_MIGRATIONS = [
+  `
+  CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY NOT NULL,
+    title TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    id TEXT NOT NULL,
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    metadata TEXT,
+    PRIMARY KEY (conversation_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS messages_by_conversation ON messages (conversation_id, position);
+  `,
+];
+
+async function migrateDatabase(db: SQLiteDatabase) {
+  await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const currentVersion = row?.user_version ?? 0;
+  if (currentVersion > SQLITE_MIGRATIONS.length) {
+    throw new Error(`Conversation database version ${currentVersion} is newer than this app supports`);
+  }
+
+  for (let version = currentVersion; version < SQLITE_MIGRATIONS.length; version++) {
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(SQLITE_MIGRATIONS[version]);
+      await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+  }
+}
+
+export class SQLiteConversationRepository implements ConversationRepository {
+  private database: Promise<SQLiteDatabase> | null = null;
+
+  private getDatabase(): Promise<SQLiteDatabase> {
+    if (!this.database) {
+      this.database = (async () => {
+        // Required lazily so the web bundle never loads the native module
+        const SQLite: typeof import('expo-sqlite') = require('expo-sqlite');
+        const db = await SQLite.openDatabaseAsync('conversations.db');
+        await migrateDatabase(db);
+        return db;
+      })();
+    }
+    return this.database;
+  }
+
+  async loadConversations(): Promise<Conversation[]> {
+    const db = await this.getDatabase();
+    const conversationRows = await db.getAllAsync<ConversationRow>(
+      'SELECT * FROM conversations ORDER BY updated_at DESC'
+    );
+    const messageRows = await db.getAllAsync<MessageRow>(
+      'SELECT * FROM messages ORDER BY conversation_id, position'
+    );
+
+    const messagesByConversation = new Map<string, Message[]>();
+    const validRows = await keepValid(
+      messageRows,
+      row => {
+        const metadata = parseMetadata(row.metadata);
+        return metadata ? validateMessage(toMessage(row, metadata)) : 'unreadable metadata';
+      },
+      async row => {
+        await db.runAsync('DELETE FROM messages WHERE conversation_id = ? AND id = ?', row.conversation_id, row.id);
+      }
+    );
+    for (const row of validRows) {
+      const messages = messagesByConversation.get(row.conversation_id) || [];
+      messages.push(toMessage(row, parseMetadata(row.metadata)!));
+      messagesByConversation.set(row.conversation_id, messages);
+    }
+
+    const conversations = conversationRows.map(row => ({
+      id: row.id,
+      title: row.title,
+      provider: row.provider as Conversation['provider'],
+      model: row.model,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      messages: messagesByConversation.get(row.id) || [],
+    }));
+    // The quarantined copy includes the messages, which go with the conversation
+    return keepValid(conversations, validateConversation, conversation => this.deleteConversation(conversation.id));
+  }
+
+  async saveMessages(conversation: Conversation, messages: Message[]): Promise<void> {
+    const db = await this.getDatabase();
+    await db.withTransactionAsync(async () => {
+      await this.writeConversation(db, conversation, messages);
+    });
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const db = await this.getDatabase();
+    // Messages go with it through ON DELETE CASCADE
+    await db.runAsync('DELETE FROM conversations WHERE id = ?', id);
+  }
+
+  async importConversations(conversations: Conversation[]): Promise<void> {
+    const db = await this.getDatabase();
+    await db.withTransactionAsync(async () => {
+      for (const conversation of conversations) {
+        await this.writeConversation(db, conversation, conversation.messages);
+      }
+    });
+  }
+
+  private async writeConversation(db: SQLiteDatabase, conversation: Conversation, messages: Message[]) {
+    const record = toConversationRecord(conversation);
+    await db.runAsync(
+      `INSERT INTO conversations (id, title, provider, model, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         title = excluded.title,
+         provider = excluded.provider,
+         model = excluded.model,
+         updated_at = excluded.updated_at`,
+      record.id,
+      record.title,
+      record.provider,
+      record.model,
+      record.createdAt,
+      record.updatedAt
+    );
+
+    for (const message of messages) {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO messages (id, conversation_id, position, role, content, timestamp, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        message.id,
+        conversation.id,
+        positionOf(conversation, message),
+        message.role,
+        message.content,
+        message.timestamp,
+        JSON.stringify(toMetadata(message))
+      );
+    }
+  }
+}
+
+// IndexedDB (web)
+
+interface MessageRecord extends Message {
+  conversationId: string;
+  position: number;
+}
+
+const IDB_NAME = 'solana-ai-chat';
+// Bump and add a step in onupgradeneeded when the stores change
+const IDB_VERSION = 1;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export class IndexedDBConversationRepository implements ConversationRepository {
+  private database: Promise<IDBDatabase> | null = null;
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('conversations')) {
+          db.createObjectStore('conversations', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('messages')) {
+          const messages = db.createObjectStore('messages', { keyPath: ['conversationId', 'id'] });
+          messages.createIndex('byConversation', 'conversationId');
+        }
+      };
+      this.database = promisify(request);
+    }
+    return this.database;
+  }
+
+  async loadConversations(): Promise<Conversation[]> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(['conversations', 'messages'], 'readonly');
+    const [records, messageRecords] = await Promise.all([
+      promisify(transaction.objectStore('conversations').getAll() as IDBRequest<ConversationRecord[]>),
+      promisify(transaction.objectStore('messages').getAll() as IDBRequest<MessageRecord[]>),
+    ]);
+
+    const messagesByConversation = new Map<string, MessageRecord[]>();
+    const validMessages = await keepValid(
+      messageRecords,
+      ({ conversationId, position, ...message }) => validateMessage(message),
+      record => this.deleteMessage(record)
+    );
+    for (const record of validMessages) {
+      const messages = messagesByConversation.get(record.conversationId) || [];
+      messages.push(record);
+      messagesByConversation.set(record.conversationId, messages);
+    }
+
+    const conversations = records
+      .map(record => ({
+        ...record,
+        messages: (messagesByConversation.get(record.id) || [])
+          .sort((a, b) => a.position - b.position)
+          .map(({ conversationId, position, ...message }) => message),
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    // The quarantined copy includes the messages, which go with the conversation
+    return keepValid(conversations, validateConversation, conversation => this.deleteConversation(conversation.id));
+  }
+
+  private async deleteMessage({ conversationId, id }: MessageRecord): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction('messages', 'readwrite');
+    transaction.objectStore('messages').delete([conversationId, id]);
+    await transactionDone(transaction);
+  }
+
+  async saveMessages(conversation: Conversation, messages: Message[]): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(['conversations', 'messages'], 'readwrite');
+    this.writeConversation(transaction, conversation, messages);
+    await transactionDone(transaction);
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(['conversations', 'messages'], 'readwrite');
+    transaction.objectStore('conversations').delete(id);
+
+    const messages = transaction.objectStore('messages');
+    const keys = await promisify(messages.index('byConversation').getAllKeys(id));
+    for (const key of keys) {
+      messages.delete(key);
+    }
+    await transactionDone(transaction);
+  }
+
+  async importConversations(conversations: Conversation[]): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(['conversations', 'messages'], 'readwrite');
+    for (const conversation of conversations) {
+      this.writeConversation(transaction, conversation, conversation.messages);
+    }
+    await transactionDone(transaction);
+  }
+
+  private writeConversation(transaction: IDBTransaction, conversation: Conversation, messages: Message[]) {
+    transaction.objectStore('conversations').put(toConversationRecord(conversation));
+
+    const store = transaction.objectStore('messages');
+    for (const message of messages) {
+      const record: MessageRecord = {
+        ...message,
+        conversationId: conversation.id,
+        position: positionOf(conversation, message),
+      };
+      store.put(record);
+    }
+  }
+}
+
+// Factory function to get the repository for this platform
+export function createConversationRepository(): ConversationRepository {
+  return Platform.OS === 'web'
+    ? new IndexedDBConversationRepository()
+    : new SQLiteConversationRepository();
+}
+
+// Singleton instance
+export const conversationRepository = createConversationRepository();
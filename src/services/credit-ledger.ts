@@ -0,0 +1,221 @@
+import { Buffer } from 'buffer';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import {
+  AIProvider,
+  CreditBalance,
+  CreditPackage,
+  CreditReceipt,
+  CreditReceiptPayload,
+  CreditTransaction,
+  PaymentToken,
+  TokenUsage,
+} from '../types';
+import { checkPayment } from './purchase-verifier';
+import { calculateCreditCost } from './credit-pricing';
+
+// The credit balance is never trusted on its own: it is recomputed from the transaction
+// history, where purchases count only if they are backed by a receipt or an on-chain payment,
+// and voucher grants only if the voucher is signed by its issuer
+
+// How far back a restore looks through the wallet's history
+const RESTORE_SIGNATURE_LIMIT = 1000;
+const RESTORE_BATCH_SIZE = 25;
+
+// Must match receiptMessage in relay/server.mjs
+export const receiptMessage = ({ version, signature, wallet, token, amount, credits, issuedAt }: CreditReceiptPayload): string =>
+  JSON.stringify({ version, signature, wallet, token, amount, credits, issuedAt });
+
+// Checks the relay's signature and that the receipt is for this purchase
+export function verifyReceipt(receipt: CreditReceipt, publicKey: string, purchase: CreditTransaction): boolean {
+  const { payload } = receipt;
+  if (payload.signature !== purchase.signature || payload.credits !== purchase.credits) return false;
+  if (purchase.sender && payload.wallet !== purchase.sender) return false;
+
+  try {
+    return ed25519.verify(
+      Buffer.from(receipt.signature, 'base64'),
+      Buffer.from(receiptMessage(payload)),
+      new PublicKey(publicKey).toBytes()
+    );
+  } catch {
+    return false;
+  }
+}
+
+// A purchase recorded from a receipt, for purchases this install has never seen
+export const purchaseFromReceipt = (receipt: CreditReceipt): CreditTransaction => ({
+  id: `receipt_${receipt.payload.signature}`,
+  type: 'purchase',
+  amount: receipt.payload.amount,
+  credits: receipt.payload.credits,
+  token: receipt.payload.token,
+  signature: receipt.payload.signature,
+  timestamp: receipt.payload.issuedAt,
+  status: 'confirmed',
+  sender: receipt.payload.wallet,
+  receipt,
+});
+
+export function recomputeBalance(
+  transactions: CreditTransaction[],
+  countsCredit: (credit: CreditTransaction) => boolean
+): CreditBalance {
+  const balance: CreditBalance = { total: 0, used: 0, remaining: 0 };
+  const redeemedVouchers = new Set<string>();
+  const creditedPayments = new Set<string>();
+
+  for (const transaction of transactions) {
+    if (transaction.type === 'purchase') {
+      // A payment copied into the history under another id still only counts once: its receipt
+      // ties to the signature, not the id
+      const { signature } = transaction;
+      if ((signature && creditedPayments.has(signature)) || !countsCredit(transaction)) continue;
+      if (signature) creditedPayments.add(signature);
+      balance.total += transaction.credits;
+      balance.lastPurchase = Math.max(balance.lastPurchase ?? 0, transaction.timestamp);
+    } else if (transaction.type === 'grant') {
+      // A voucher copied into the history twice still only counts once
+      const voucherId = transaction.voucher?.payload.id;
+      if (!voucherId || redeemedVouchers.has(voucherId) || !countsCredit(transaction)) continue;
+      redeemedVouchers.add(voucherId);
+      balance.total += transaction.credits;
+    } else {
+      // Usage is recorded as negative credits and refunds as positive ones
+      balance.used -= transaction.credits;
+    }
+  }
+
+  balance.remaining = balance.total - balance.used;
+  return balance;
+}
+
+// A request's estimated cost, held as usage until it is settled or refunded
+export const createHold = (
+  id: string,
+  cost: number,
+  { provider, model, conversationId }: { provider: AIProvider; model: string; conversationId?: string }
+): CreditTransaction => ({
+  id,
+  type: 'usage',
+  amount: 0,
+  credits: -cost,
+  timestamp: Date.now(),
+  provider,
+  model,
+  conversationId,
+});
+
+// Charge a hold the actual cost of its request. The reply has already been delivered, so the
+// charge is capped at what the hold and the remaining balance cover rather than going negative.
+export function settleHold(
+  transactions: CreditTransaction[],
+  remaining: number,
+  holdId: string,
+  usage: TokenUsage | undefined,
+  toolRounds: number
+): CreditTransaction[] {
+  const hold = transactions.find(t => t.id === holdId && t.type === 'usage');
+  if (!hold || !hold.provider || !hold.model) return transactions;
+
+  const cost = Math.min(calculateCreditCost(hold.provider, hold.model, usage, toolRounds), -hold.credits + remaining);
+  return transactions.map(t =>
+    t.id === holdId ? { ...t, credits: -cost, tokens: usage, toolRounds } : t
+  );
+}
+
+// Give back what a failed request's hold took, once
+export function refundHold(transactions: CreditTransaction[], holdId: string): CreditTransaction[] {
+  const hold = transactions.find(t => t.id === holdId && t.type === 'usage');
+  const alreadyRefunded = transactions.some(t => t.id === `${holdId}_refund`);
+  if (!hold || alreadyRefunded) return transactions;
+
+  const refund: CreditTransaction = {
+    id: `${holdId}_refund`,
+    type: 'refund',
+    amount: 0,
+    credits: -hold.credits,
+    timestamp: Date.now(),
+    provider: hold.provider,
+    model: hold.model,
+    conversationId: hold.conversationId,
+  };
+  return [refund, ...transactions];
+}
+
+// Add restored purchases to the history, confirming and attaching receipts to ones already recorded
+export function mergePurchases(transactions: CreditTransaction[], restored: CreditTransaction[]): CreditTransaction[] {
+  const merged = [...transactions];
+
+  for (const purchase of restored) {
+    const index = merged.findIndex(t => t.type === 'purchase' && t.signature === purchase.signature);
+    if (index === -1) {
+      merged.push(purchase);
+      continue;
+    }
+    const existing = merged[index];
+    merged[index] = {
+      ...existing,
+      status: 'confirmed',
+      failureReason: undefined,
+      receipt: purchase.receipt ?? existing.receipt,
+    };
+  }
+
+  return merged.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export interface TreasuryPaymentOptions {
+  treasury: string;
+  packages: CreditPackage[];
+  mints: Partial<Record<PaymentToken, string>>;
+}
+
+// Scan the wallet's history for finalized payments to the treasury that match a credit package
+export async function findTreasuryPayments(
+  connection: Connection,
+  wallet: string,
+  { treasury, packages, mints }: TreasuryPaymentOptions
+): Promise<CreditTransaction[]> {
+  const signatures = (await connection.getSignaturesForAddress(
+    new PublicKey(wallet),
+    { limit: RESTORE_SIGNATURE_LIMIT },
+    'finalized'
+  )).filter(info => !info.err);
+
+  const purchases: CreditTransaction[] = [];
+  for (let i = 0; i < signatures.length; i += RESTORE_BATCH_SIZE) {
+    const batch = signatures.slice(i, i + RESTORE_BATCH_SIZE);
+    const transactions = await connection.getParsedTransactions(batch.map(info => info.signature), {
+      commitment: 'finalized',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    transactions.forEach((transaction, index) => {
+      if (!transaction) return;
+      const { signature, blockTime } = batch[index];
+      const pkg = packages.find(p => checkPayment(transaction, {
+        signature,
+        sender: wallet,
+        recipient: treasury,
+        token: p.token,
+        amount: p.price,
+        mint: mints[p.token],
+      }) === null);
+      if (!pkg) return;
+
+      purchases.push({
+        id: `restored_${signature}`,
+        type: 'purchase',
+        amount: pkg.price,
+        credits: pkg.credits,
+        token: pkg.token,
+        signature,
+        timestamp: blockTime ? blockTime * 1000 : Date.now(),
+        status: 'confirmed',
+        sender: wallet,
+      });
+    });
+  }
+  return purchases;
+}
@@ -0,0 +1,65 @@
+import { AIProvider, TokenUsage } from '../types';
+import { AI_PROVIDERS, getModelPricing } from './ai-providers';
+import { calculateCost } from './usage';
+import PRICING from './pricing.json';
+
+// Credits are priced from each model's per-token pricing (AIModel.pricing, from pricing.json) plus a markup.
+// relay/server.mjs reads the same file and charges with the same formula; keep the two in sync.
+
+// What one credit is worth
+export const USD_PER_CREDIT = PRICING.usdPerCredit;
+
+// Multiplier over the provider's price, covering relay and payment costs
+export const CREDIT_MARKUP = Number(process.env.EXPO_PUBLIC_CREDIT_MARKUP) || 1.5;
+
+// Every request costs at least this much, however few tokens it used
+export const MIN_REQUEST_CREDITS = PRICING.minRequestCredits;
+
+// Extra credits for each model turn that called tools
+export const TOOL_ROUND_CREDITS = PRICING.toolRoundCredits;
+
+// Reply length assumed when estimating a request before it is sent
+export const ESTIMATED_REPLY_TOKENS = 1000;
+
+const CHARS_PER_TOKEN = 4;
+
+// Throws if any model can't be priced, so a new model never silently runs at the minimum cost.
+// Run by the tests and at startup in dev builds (AIProvider) rather than at import, so in production
+// a missing price only blocks paying for that model with credits (calculateCreditCost refuses it).
+export function validateModelPricing(): void {
+  const missing = (Object.keys(AI_PROVIDERS) as AIProvider[]).flatMap(provider =>
+    AI_PROVIDERS[provider].models.filter(model => !model.pricing).map(model => `${provider}/${model.id}`)
+  );
+  if (missing.length > 0) {
+    throw new Error(`Models missing pricing, so credits can't be charged for them: ${missing.join(', ')}`);
+  }
+}
+
+// Credits for a finished request, from the tokens it used and its tool rounds
+export function calculateCreditCost(
+  provider: AIProvider,
+  model: string,
+  usage: TokenUsage | undefined,
+  toolRounds: number
+): number {
+  const pricing = getModelPricing(provider, model);
+  if (!pricing) {
+    throw new Error(`${model} has no pricing and can't be paid for with credits`);
+  }
+
+  const usd = calculateCost(usage, pricing) ?? 0;
+  // Shave float noise so an exact multiple of a credit doesn't round up to the next one
+  const credits = Math.ceil(usd * CREDIT_MARKUP / USD_PER_CREDIT - 1e-9);
+  return Math.max(MIN_REQUEST_CREDITS, credits) + toolRounds * TOOL_ROUND_CREDITS;
+}
+
+// Rough token count for text that hasn't been sent yet
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Expected cost of a request before it runs, assuming a typical reply length
+export const estimateCreditCost = (
+  provider: AIProvider,
+  model: string,
+  inputTokens: number,
+  outputTokens = ESTIMATED_REPLY_TOKENS
+): number => calculateCreditCost(provider, model, { input: inputTokens, output: outputTokens }, 0);
@@ -0,0 +1,134 @@
+import { AIProvider, CreditTransaction, TokenUsage } from '../types';
+import { addUsage } from './usage';
+
+// Aggregations over the credit ledger for the usage screen and expense exports
+
+export interface UsageFilter {
+  provider?: AIProvider;
+  model?: string;
+  since?: number; // Timestamp; older transactions are left out
+}
+
+export interface DailySpend {
+  day: string; // YYYY-MM-DD, local time
+  credits: number;
+}
+
+export interface ConversationSpend {
+  conversationId: string;
+  credits: number;
+  requests: number;
+  tokens?: TokenUsage;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRANSACTION_LABELS: Record<CreditTransaction['type'], string> = {
+  purchase: 'Purchased',
+  usage: 'Used',
+  refund: 'Refunded',
+  grant: 'Gifted',
+};
+
+// Purchases and voucher grants add credits rather than spending them
+export const isCreditIn = (transaction: CreditTransaction): boolean =>
+  transaction.type === 'purchase' || transaction.type === 'grant';
+
+// Purchases and grants aren't tied to a model, so they only drop out when filtering by date
+export const filterTransactions = (transactions: CreditTransaction[], { provider, model, since }: UsageFilter) =>
+  transactions.filter(t =>
+    (since === undefined || t.timestamp >= since) &&
+    (isCreditIn(t) ? !provider && !model : (!provider || t.provider === provider) && (!model || t.model === model))
+  );
+
+// Credits spent by a usage or refund entry; refunds give back what their hold took
+const spentCredits = (transaction: CreditTransaction): number =>
+  isCreditIn(transaction) ? 0 : -transaction.credits;
+
+export const totalSpent = (transactions: CreditTransaction[]): number =>
+  transactions.reduce((total, t) => total + spentCredits(t), 0);
+
+const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Spend for each of the last `days` days, oldest first, including days with none
+export function dailySpend(transactions: CreditTransaction[], days: number, now = Date.now()): DailySpend[] {
+  const totals = new Map<string, number>();
+  for (const transaction of transactions) {
+    const day = dayKey(transaction.timestamp);
+    totals.set(day, (totals.get(day) || 0) + spentCredits(transaction));
+  }
+
+  return Array.from({ length: days }, (_, i) => {
+    const day = dayKey(now - (days - 1 - i) * DAY_MS);
+    return { day, credits: totals.get(day) || 0 };
+  });
+}
+
+// Spend per conversation, most expensive first. Requests from before conversations
+// were recorded are left out.
+export function spendByConversation(transactions: CreditTransaction[]): ConversationSpend[] {
+  const byConversation = new Map<string, ConversationSpend>();
+
+  for (const transaction of transactions) {
+    if (isCreditIn(transaction) || !transaction.conversationId) continue;
+    const spend = byConversation.get(transaction.conversationId) ?? {
+      conversationId: transaction.conversationId,
+      credits: 0,
+      requests: 0,
+    };
+    spend.credits += spentCredits(transaction);
+    if (transaction.type === 'usage') {
+      spend.requests++;
+      spend.tokens = addUsage(spend.tokens, transaction.tokens);
+    }
+    byConversation.set(transaction.conversationId, spend);
+  }
+
+  return Array.from(byConversation.values()).sort((a, b) => b.credits - a.credits);
+}
+
+// Purchases are paid on mainnet
+export const getExplorerTxUrl = (signature: string): string => `https://explorer.solana.com/tx/${signature}`;
+
+const CSV_COLUMNS = [
+  'date', 'type', 'credits', 'amount', 'token', 'status', 'provider', 'model',
+  'input_tokens', 'output_tokens', 'tool_rounds', 'conversation_id', 'signature',
+] as const;
+
+const csvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = value.toString();
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCSV(transactions: CreditTransaction[]): string {
+  const rows = transactions.map(t => [
+    new Date(t.timestamp).toISOString(),
+    t.type,
+    t.credits,
+    t.type === 'purchase' ? t.amount : undefined,
+    t.token,
+    t.status,
+    t.provider,
+    t.model,
+    t.tokens?.input,
+    t.tokens?.output,
+    t.toolRounds,
+    t.conversationId,
+    t.signature,
+  ].map(csvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+// Receipts and vouchers are left out; they prove credits to the relay, not to an accountant
+export const toJSON = (transactions: CreditTransaction[]): string =>
+  JSON.stringify(
+    transactions.map(({ receipt: _receipt, voucher: _voucher, ...transaction }) => transaction),
+    null,
+    2
+  );
@@ -0,0 +1,248 @@
+import { AppSettings, CachedTokenMetadata, CreditBalance, CreditTransaction, Conversation, MessagePart, NetworkSettings } from '../types';
+import {
+  PersistedSchema,
+  checkFields,
+  isBoolean,
+  isNumber,
+  isRecord,
+  isString,
+  oneOf,
+  optional,
+} from '../utils/persistence';
+import { storage } from '../utils/storage';
+import { DEFAULT_NETWORK_SETTINGS } from './solana-network';
+import { RelaySession } from './relay';
+
+// Schemas for everything the app persists. Bump a schema's version and register a
+// migration whenever the shape of its data changes.
+
+const PROVIDERS = ['claude', 'openai', 'gemini', 'doubao'] as const;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKeys: {},
+  defaultProvider: 'claude',
+  theme: 'dark',
+  hapticFeedback: true,
+  streamResponses: true,
+  useTools: true, // Enable Solana blockchain tools
+  spendingLimits: {
+    enabled: false,
+    warnAt: 0.8,
+  },
+};
+
+// API keys live in secure storage; older installs may still carry them here until moved
+export type PersistedSettings = Omit<AppSettings, 'apiKeys'> & { apiKeys?: AppSettings['apiKeys'] };
+
+const { apiKeys: _apiKeys, ...DEFAULT_PERSISTED_SETTINGS } = DEFAULT_SETTINGS;
+
+export const APP_SETTINGS_SCHEMA: PersistedSchema<PersistedSettings> = {
+  key: 'appSettings',
+  version: 2,
+  migrations: {
+    // Unversioned settings predate streamResponses/useTools
+    1: (data) => ({ ...DEFAULT_PERSISTED_SETTINGS, ...data }),
+    2: (data) => ({ ...data, spendingLimits: DEFAULT_PERSISTED_SETTINGS.spendingLimits }),
+  },
+  validate: (value) =>
+    checkFields(value, {
+      defaultProvider: oneOf(...PROVIDERS),
+      theme: oneOf('dark', 'light', 'system'),
+      hapticFeedback: isBoolean,
+      streamResponses: isBoolean,
+      useTools: isBoolean,
+      spendingLimits: (limits) =>
+        checkFields(limits, {
+          enabled: isBoolean,
+          dailyCredits: optional(isNumber),
+          conversationCredits: optional(isNumber),
+          dailyUsd: optional(isNumber),
+          conversationUsd: optional(isNumber),
+          warnAt: isNumber,
+        }) === null,
+      apiKeys: optional(isRecord),
+    }),
+  fallback: () => ({ ...DEFAULT_PERSISTED_SETTINGS }),
+};
+
+const PUBLIC_CLUSTERS = ['mainnet', 'devnet', 'testnet'] as const;
+
+// Kept in secure storage since custom RPC headers may carry provider keys
+export const NETWORK_SETTINGS_SCHEMA: PersistedSchema<NetworkSettings> = {
+  key: 'networkSettings',
+  version: 1,
+  migrations: {
+    // Unversioned settings were merged over the defaults when loaded
+    1: (data) => ({ ...DEFAULT_NETWORK_SETTINGS, ...data }),
+  },
+  validate: (value) =>
+    checkFields(value, {
+      cluster: oneOf(...PUBLIC_CLUSTERS, 'localnet', 'custom'),
+      customUrl: optional(isString),
+      customHeaders: optional((headers) => isRecord(headers) && Object.values(headers).every(isString)),
+      customChain: optional(oneOf(...PUBLIC_CLUSTERS)),
+    }),
+  fallback: () => ({ ...DEFAULT_NETWORK_SETTINGS }),
+  store: storage,
+  secret: true,
+};
+
+// The wallet-signed session the credits relay accepts, kept with the other secrets
+export const RELAY_SESSION_SCHEMA: PersistedSchema<RelaySession | null> = {
+  key: 'relaySession',
+  version: 1,
+  validate: (value) =>
+    checkFields(value, {
+      wallet: isString,
+      expiresAt: isNumber,
+      nonce: isString,
+      signature: isString,
+    }),
+  fallback: () => null,
+  store: storage,
+  secret: true,
+};
+
+// The relay's receipt key as last fetched, so purchases keep counting while the relay is
+// unreachable. On native it's kept in SecureStore, apart from the ledger, so the two can't be
+// swapped together; on web both live in localStorage, so pin the key at build time there.
+export const RECEIPT_KEY_SCHEMA: PersistedSchema<string | null> = {
+  key: 'relayReceiptKey',
+  version: 1,
+  validate: (value) => (isString(value) ? null : 'expected a string'),
+  fallback: () => null,
+  store: storage,
+};
+
+export const DEFAULT_BALANCE: CreditBalance = {
+  total: 0,
+  used: 0,
+  remaining: 0,
+};
+
+export const CREDIT_BALANCE_SCHEMA: PersistedSchema<CreditBalance> = {
+  key: 'creditBalance',
+  version: 1,
+  validate: (value) =>
+    checkFields(value, {
+      total: isNumber,
+      used: isNumber,
+      remaining: isNumber,
+      lastPurchase: optional(isNumber),
+    }),
+  fallback: () => ({ ...DEFAULT_BALANCE }),
+};
+
+export const validateCreditTransaction = (value: unknown) =>
+  checkFields(value, {
+    id: isString,
+    type: oneOf('purchase', 'usage', 'refund', 'grant'),
+    amount: isNumber,
+    credits: isNumber,
+    token: optional(oneOf('SOL', 'PURP')),
+    signature: optional(isString),
+    timestamp: isNumber,
+    provider: optional(oneOf(...PROVIDERS)),
+    model: optional(isString),
+    tokens: optional((tokens) => checkFields(tokens, { input: isNumber, output: isNumber }) === null),
+    toolRounds: optional(isNumber),
+    conversationId: optional(isString),
+    // Purchases recorded before verification existed have no status and were credited
+    status: optional(oneOf('pending', 'confirmed', 'failed')),
+    sender: optional(isString),
+    failureReason: optional(isString),
+    receipt: optional((receipt) => checkFields(receipt, { payload: isRecord, signature: isString }) === null),
+    reference: optional(isString),
+    voucher: optional((voucher) => checkFields(voucher, { payload: isRecord, signature: isString }) === null),
+  });
+
+export const CREDIT_TRANSACTIONS_SCHEMA: PersistedSchema<CreditTransaction[]> = {
+  key: 'creditTransactions',
+  version: 1,
+  validate: (value) => (Array.isArray(value) ? null : 'expected a list'),
+  validateItem: validateCreditTransaction,
+  fallback: () => [],
+};
+
+// Token metadata by chain and mint. Only a cache, so anything unreadable is simply fetched again.
+export const TOKEN_METADATA_SCHEMA: PersistedSchema<Record<string, CachedTokenMetadata>> = {
+  key: 'tokenMetadata',
+  version: 2,
+  migrations: {
+    // Entries were keyed by mint alone, whichever cluster they came from
+    2: () => ({}),
+  },
+  validate: (value) => (isRecord(value) ? null : 'expected an object'),
+  fallback: () => ({}),
+};
+
+const validatePart = (value: unknown): string | null => {
+  if (!isRecord(value)) return 'expected an object';
+  switch (value.type) {
+    case 'text':
+      return checkFields(value, { text: isString });
+    case 'tool_call':
+      return checkFields(value, { id: isString, name: isString, input: isRecord });
+    case 'tool_result':
+      return checkFields(value, {
+        toolCallId: isString,
+        name: isString,
+        content: isString,
+        isError: optional(isBoolean),
+      });
+    default:
+      return `unknown part type "${value.type}"`;
+  }
+};
+
+export const validateMessage = (value: unknown): string | null => {
+  const problem = checkFields(value, {
+    id: isString,
+    role: oneOf('user', 'assistant', 'system'),
+    content: isString,
+    timestamp: isNumber,
+    provider: optional(oneOf(...PROVIDERS)),
+    model: optional(isString),
+    parts: optional(Array.isArray),
+    tokens: optional((tokens) => checkFields(tokens, { input: isNumber, output: isNumber }) === null),
+    cost: optional(isNumber),
+    incomplete: optional(isBoolean),
+    paidWithCredits: optional(isBoolean),
+  });
+  if (problem) return problem;
+
+  for (const part of ((value as { parts?: MessagePart[] }).parts || [])) {
+    const partProblem = validatePart(part);
+    if (partProblem) return `invalid part: ${partProblem}`;
+  }
+  return null;
+};
+
+export const validateConversation = (value: unknown): string | null => {
+  const problem = checkFields(value, {
+    id: isString,
+    title: isString,
+    provider: oneOf(...PROVIDERS),
+    model: isString,
+    createdAt: isNumber,
+    updatedAt: isNumber,
+    messages: Array.isArray,
+  });
+  if (problem) return problem;
+
+  for (const message of (value as Conversation).messages) {
+    const messageProblem = validateMessage(message);
+    if (messageProblem) return `invalid message: ${messageProblem}`;
+  }
+  return null;
+};
+
+// History from builds that kept every conversation in one SecureStore entry
+export const LEGACY_CONVERSATIONS_SCHEMA: PersistedSchema<Conversation[]> = {
+  key: 'conversations',
+  version: 1,
+  validate: (value) => (Array.isArray(value) ? null : 'expected a list'),
+  validateItem: validateConversation,
+  fallback: () => [],
+  store: storage,
+};
@@ -0,0 +1,125 @@
+// USD prices from Jupiter, cached and shared by the wallet sheet and the price tools.
+// Prices past STALE_AFTER_MS are still returned when a refresh fails, flagged as stale.
+
+const PRICE_API = 'https://lite-api.jup.ag/price/v3';
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Cached prices younger than this are used without asking again
+const PRICE_TTL_MS = 60_000;
+// Older prices are shown as out of date
+const STALE_AFTER_MS = 5 * 60_000;
+// Jupiter takes at most this many mints per request
+const IDS_PER_REQUEST = 50;
+
+export interface TokenPrice {
+  mint: string;
+  usd: number;
+  change24h?: number; // Percent
+  fetchedAt: number;
+}
+
+export interface PortfolioHolding {
+  mint: string;
+  amount: number; // Whole tokens
+}
+
+export interface PortfolioValue {
+  totalUsd: number;
+  change24hUsd?: number;
+  change24hPercent?: number;
+  unpriced: number; // Holdings Jupiter has no price for, left out of the total
+  asOf?: number; // When the oldest price used was fetched
+  stale: boolean;
+}
+
+const cache = new Map<string, TokenPrice>();
+
+export const isStale = (price: TokenPrice, now = Date.now()): boolean => now - price.fetchedAt > STALE_AFTER_MS;
+
+async function fetchPrices(mints: string[]): Promise<void> {
+  for (let i = 0; i < mints.length; i += IDS_PER_REQUEST) {
+    const batch = mints.slice(i, i + IDS_PER_REQUEST);
+    const response = await fetch(`${PRICE_API}?ids=${batch.join(',')}`);
+    if (!response.ok) {
+      throw new Error(`Price API error (${response.status})`);
+    }
+    const data = await response.json();
+    const fetchedAt = Date.now();
+    for (const mint of batch) {
+      const entry = data?.[mint];
+      if (typeof entry?.usdPrice !== 'number') continue;
+      cache.set(mint, {
+        mint,
+        usd: entry.usdPrice,
+        change24h: typeof entry.priceChange24h === 'number' ? entry.priceChange24h : undefined,
+        fetchedAt,
+      });
+    }
+  }
+}
+
+// Prices for the mints Jupiter knows, refreshing any older than the TTL. If the refresh fails,
+// whatever is cached comes back instead; check isStale before presenting it as current.
+// Jupiter prices mainnet mints only, so holdings on other clusters shouldn't be looked up here.
+export async function getPrices(mints: string[]): Promise<Record<string, TokenPrice>> {
+  const now = Date.now();
+  const unique = Array.from(new Set(mints));
+  const expired = unique.filter(mint => {
+    const cached = cache.get(mint);
+    return !cached || now - cached.fetchedAt > PRICE_TTL_MS;
+  });
+
+  if (expired.length > 0) {
+    try {
+      await fetchPrices(expired);
+    } catch (error) {
+      console.warn('Error fetching prices:', error);
+    }
+  }
+
+  const prices: Record<string, TokenPrice> = {};
+  for (const mint of unique) {
+    const price = cache.get(mint);
+    if (price) prices[mint] = price;
+  }
+  return prices;
+}
+
+export async function getPrice(mint: string): Promise<TokenPrice | null> {
+  return (await getPrices([mint]))[mint] ?? null;
+}
+
+export function valuePortfolio(holdings: PortfolioHolding[], prices: Record<string, TokenPrice>, now = Date.now()): PortfolioValue {
+  let totalUsd = 0;
+  let previousUsd = 0;
+  let hasChange = false;
+  let unpriced = 0;
+  let asOf: number | undefined;
+
+  for (const { mint, amount } of holdings) {
+    if (amount <= 0) continue;
+    const price = prices[mint];
+    if (!price) {
+      unpriced++;
+      continue;
+    }
+
+    const value = amount * price.usd;
+    totalUsd += value;
+    // Holdings without a 24h change count as unchanged
+    previousUsd += price.change24h === undefined ? value : value / (1 + price.change24h / 100);
+    hasChange ||= price.change24h !== undefined;
+    asOf = Math.min(asOf ?? price.fetchedAt, price.fetchedAt);
+  }
+
+  const change24hUsd = hasChange ? totalUsd - previousUsd : undefined;
+  return {
+    totalUsd,
+    change24hUsd,
+    change24hPercent: change24hUsd !== undefined && previousUsd > 0 ? (change24hUsd / previousUsd) * 100 : undefined,
+    unpriced,
+    asOf,
+    stale: asOf !== undefined && now - asOf > STALE_AFTER_MS,
+  };
+}
@@ -0,0 +1,141 @@
+import { Connection, ParsedInstruction, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { PaymentToken } from '../types';
+import { toBaseUnits } from '../utils/amounts';
+import { DEFAULT_NETWORK_SETTINGS, createConnection, getActiveConnection, getActiveNetwork, getClusterChain } from './solana-network';
+
+// Checks that a credit purchase payment landed, paid the treasury the package price from the
+// buyer's wallet, and is finalized before any credits are granted
+
+export interface ExpectedPayment {
+  signature: string;
+  sender?: string; // Any wallet may pay when omitted, as with Solana Pay
+  reference?: string; // Solana Pay reference key the transaction must include
+  recipient: string; // Wallet that owns the receiving account
+  token: PaymentToken;
+  amount: number; // In whole SOL or tokens
+  mint?: string; // Required for token payments
+}
+
+export type VerificationResult =
+  | { status: 'finalized' }
+  | { status: 'failed'; reason: string }
+  | { status: 'pending' }; // Not final yet when polling stopped; verify again later
+
+export interface VerifyOptions {
+  timeoutMs?: number;
+  intervalMs?: number;
+  // Give up on a signature the cluster has never seen once this much time has passed since sending.
+  // Its blockhash has expired by then, so it can no longer land.
+  expireAfterMs?: number;
+  sentAt?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 90_000;
+const DEFAULT_INTERVAL_MS = 2_000;
+const DEFAULT_EXPIRE_AFTER_MS = 3 * 60_000;
+const SOL_DECIMALS = 9;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Payments go to the mainnet treasury, so verify against mainnet even after switching networks
+export const getPaymentConnection = (): Connection =>
+  getClusterChain(getActiveNetwork()) === 'mainnet' ? getActiveConnection() : createConnection(DEFAULT_NETWORK_SETTINGS);
+
+const isParsed = (ix: unknown): ix is ParsedInstruction => !!ix && typeof ix === 'object' && 'parsed' in ix;
+
+// Top-level and inner instructions, since wallets may wrap the transfer
+const parsedInstructions = (transaction: ParsedTransactionWithMeta): ParsedInstruction[] => [
+  ...transaction.transaction.message.instructions.filter(isParsed),
+  ...(transaction.meta?.innerInstructions || []).flatMap(inner => inner.instructions.filter(isParsed)),
+];
+
+// Returns why the transaction doesn't make the expected payment, or null if it does
+export function checkPayment(transaction: ParsedTransactionWithMeta, expected: ExpectedPayment): string | null {
+  if (transaction.meta?.err) {
+    return 'The payment transaction failed on-chain';
+  }
+
+  const accountKeys = transaction.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+  if (expected.reference && !accountKeys.includes(expected.reference)) {
+    return 'The transaction is not for this payment request';
+  }
+
+  const instructions = parsedInstructions(transaction);
+
+  if (expected.token === 'SOL') {
+    const lamports = toBaseUnits(expected.amount, SOL_DECIMALS);
+    const transfer = instructions.find(ix =>
+      ix.program === 'system' &&
+      ix.parsed?.type === 'transfer' &&
+      ix.parsed.info.destination === expected.recipient
+    );
+    if (!transfer) return 'The transaction did not pay the treasury';
+    if (expected.sender && transfer.parsed.info.source !== expected.sender) return 'The payment came from a different wallet';
+    if (BigInt(transfer.parsed.info.lamports) !== lamports) return 'The payment amount does not match the package price';
+    return null;
+  }
+
+  // The receiving token account must belong to the treasury and hold the expected mint
+  const destinationBalance = (ix: ParsedInstruction) => {
+    const index = accountKeys.indexOf(ix.parsed.info.destination);
+    return transaction.meta?.postTokenBalances?.find(balance => balance.accountIndex === index);
+  };
+  const transfer = instructions.find(ix => {
+    if (ix.program !== 'spl-token' || !['transfer', 'transferChecked'].includes(ix.parsed?.type)) return false;
+    const destination = destinationBalance(ix);
+    return destination?.owner === expected.recipient && destination.mint === expected.mint;
+  });
+  if (!transfer) return 'The transaction did not pay the treasury';
+
+  const { info } = transfer.parsed;
+  if (expected.sender && (info.authority ?? info.multisigAuthority) !== expected.sender) return 'The payment came from a different wallet';
+
+  const decimals = destinationBalance(transfer)!.uiTokenAmount.decimals;
+  const paid = BigInt(info.tokenAmount?.amount ?? info.amount);
+  if (paid !== toBaseUnits(expected.amount, decimals)) return 'The payment amount does not match the package price';
+  return null;
+}
+
+// Poll the signature until it is finalized or fails, then check what it paid
+export async function verifyPayment(
+  connection: Connection,
+  expected: ExpectedPayment,
+  {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    intervalMs = DEFAULT_INTERVAL_MS,
+    expireAfterMs = DEFAULT_EXPIRE_AFTER_MS,
+    sentAt = Date.now(),
+  }: VerifyOptions = {}
+): Promise<VerificationResult> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    const { value: [status] } = await connection.getSignatureStatuses([expected.signature], {
+      searchTransactionHistory: true,
+    });
+
+    if (status?.err) {
+      return { status: 'failed', reason: 'The payment transaction failed on-chain' };
+    }
+
+    if (status?.confirmationStatus === 'finalized') {
+      const transaction = await connection.getParsedTransaction(expected.signature, {
+        commitment: 'finalized',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (transaction) {
+        const problem = checkPayment(transaction, expected);
+        return problem ? { status: 'failed', reason: problem } : { status: 'finalized' };
+      }
+    }
+
+    if (!status && Date.now() - sentAt > expireAfterMs) {
+      return { status: 'failed', reason: 'The payment transaction never landed' };
+    }
+
+    if (Date.now() + intervalMs > deadline) {
+      return { status: 'pending' };
+    }
+    await sleep(intervalMs);
+  }
+}
@@ -0,0 +1,119 @@
+import { Buffer } from 'buffer';
+import { AIProvider, CreditReceipt, Voucher } from '../types';
+
+// Client side of the credits relay (relay/server.mjs). The relay serves each provider's
+// API under /<provider>, swaps in its own keys and charges the wallet's credits.
+// Requests authenticate with a session the wallet signs once, in place of an API key.
+
+export const RELAY_URL = process.env.EXPO_PUBLIC_RELAY_URL?.replace(/\/+$/, '') || '';
+
+// How long a signed session stays valid; the relay rejects anything longer
+export const RELAY_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface RelaySession {
+  wallet: string;
+  expiresAt: number;
+  nonce: string;
+  signature: string; // Base64 signature returned by the wallet
+}
+
+export interface RelayBalance {
+  wallet: string;
+  credits: number;
+}
+
+export interface RelayPurchaseResult {
+  status: 'credited' | 'pending';
+  receipt?: CreditReceipt;
+}
+
+export const isRelayConfigured = (): boolean => !!RELAY_URL;
+
+// Public key that signs purchase receipts. Pinned at build time so a tampered relay URL
+// can't vouch for receipts; otherwise asked of the relay.
+const PINNED_RECEIPT_KEY = process.env.EXPO_PUBLIC_RELAY_RECEIPT_KEY || '';
+
+// The relay's key once fetched, so it's only asked once per launch
+let fetchedReceiptKey: string | null = null;
+
+export const getRelayOrigin = (provider: AIProvider): string => `${RELAY_URL}/${provider}`;
+
+// The exact text the wallet signs; the relay rebuilds it to verify the signature
+export const createSessionMessage = (wallet: string, expiresAt: number, nonce: string): string =>
+  `Solana AI Chat relay session\nWallet: ${wallet}\nExpires: ${new Date(expiresAt).toISOString()}\nNonce: ${nonce}`;
+
+// Memo on a Solana Pay purchase naming the wallet to credit, which may not be the one that
+// paid. Must match creditMemo in relay/server.mjs.
+export const creditMemo = (wallet: string): string => `Solana AI Chat credits for ${wallet}`;
+
+// Sessions are reused until shortly before they expire
+export const isSessionValid = (session: RelaySession | null, wallet: string | null): session is RelaySession =>
+  !!session && session.wallet === wallet && session.expiresAt - 60_000 > Date.now();
+
+const encodeSession = (session: RelaySession): string =>
+  Buffer.from(JSON.stringify(session)).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Stands in for the provider API key. The run id groups the model requests behind one
+// reply so the relay charges them together, the same way the local ledger does.
+export const createRelayCredential = (session: RelaySession, runId: string): string =>
+  `${encodeSession(session)}.${runId}`;
+
+async function relayRequest<T>(path: string, session: RelaySession, init: { method?: string; body?: string } = {}): Promise<T> {
+  const response = await fetch(`${RELAY_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${encodeSession(session)}`,
+    },
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error?.message || `Credits relay error (${response.status})`);
+  }
+  return data as T;
+}
+
+export const fetchRelayBalance = (session: RelaySession): Promise<RelayBalance> =>
+  relayRequest<RelayBalance>('/v1/credits', session);
+
+// Ask the relay to verify a purchase payment on-chain and credit the wallet.
+// 'pending' means the transaction isn't finalized yet and should be submitted again later.
+export function registerRelayPurchase(session: RelaySession, signature: string): Promise<RelayPurchaseResult> {
+  return relayRequest<RelayPurchaseResult>('/v1/credits/purchases', session, {
+    method: 'POST',
+    body: JSON.stringify({ signature }),
+  });
+}
+
+// Redeem a voucher into the relay's balance for the session's wallet. The relay keeps
+// its own record of redeemed vouchers, so each can only be used once.
+export function redeemRelayVoucher(session: RelaySession, voucher: Voucher): Promise<RelayBalance> {
+  return relayRequest<RelayBalance>('/v1/credits/vouchers', session, {
+    method: 'POST',
+    body: JSON.stringify({ voucher }),
+  });
+}
+
+// Every receipt the relay has issued to the session's wallet
+export async function fetchRelayReceipts(session: RelaySession): Promise<CreditReceipt[]> {
+  const { receipts } = await relayRequest<{ receipts: CreditReceipt[] }>('/v1/credits/receipts', session);
+  return receipts;
+}
+
+export async function getReceiptPublicKey(): Promise<string | null> {
+  if (PINNED_RECEIPT_KEY) return PINNED_RECEIPT_KEY;
+  if (!isRelayConfigured()) return null;
+  if (fetchedReceiptKey) return fetchedReceiptKey;
+
+  const response = await fetch(`${RELAY_URL}/v1/receipts/key`);
+  if (!response.ok) {
+    throw new Error(`Credits relay error (${response.status})`);
+  }
+  const { publicKey } = await response.json();
+  if (typeof publicKey !== 'string') {
+    throw new Error('Credits relay sent no receipt key');
+  }
+  fetchedReceiptKey = publicKey;
+  return publicKey;
+}
@@ -0,0 +1,117 @@
+import { Connection } from '@solana/web3.js';
+import { NetworkSettings, PublicCluster, SolanaCluster } from '../types';
+
+// Cluster identifier understood by Mobile Wallet Adapter
+export type WalletCluster = 'mainnet-beta' | 'devnet' | 'testnet';
+
+// Chain a profile points at; custom endpoints resolve to the chain they serve
+export type ClusterChain = PublicCluster | 'localnet';
+
+export interface ClusterOption {
+  id: SolanaCluster;
+  name: string;
+  description: string;
+  endpoint?: string;
+}
+
+export const CLUSTER_OPTIONS: ClusterOption[] = [
+  {
+    id: 'mainnet',
+    name: 'Mainnet',
+    description: 'Solana mainnet-beta public RPC',
+    endpoint: 'https://api.mainnet-beta.solana.com',
+  },
+  {
+    id: 'devnet',
+    name: 'Devnet',
+    description: 'Free test SOL from the faucet',
+    endpoint: 'https://api.devnet.solana.com',
+  },
+  {
+    id: 'testnet',
+    name: 'Testnet',
+    description: 'Validator and runtime testing',
+    endpoint: 'https://api.testnet.solana.com',
+  },
+  {
+    id: 'localnet',
+    name: 'Localnet',
+    description: 'solana-test-validator on this machine',
+    endpoint: 'http://127.0.0.1:8899',
+  },
+  {
+    id: 'custom',
+    name: 'Custom RPC',
+    description: 'Your own RPC provider URL',
+  },
+];
+
+export const DEFAULT_NETWORK_SETTINGS: NetworkSettings = {
+  cluster: 'mainnet',
+};
+
+const getOption = (cluster: SolanaCluster): ClusterOption =>
+  CLUSTER_OPTIONS.find(option => option.id === cluster) || CLUSTER_OPTIONS[0];
+
+export const isValidEndpoint = (url: string): boolean => /^https?:\/\/\S+$/i.test(url.trim());
+
+export function getEndpoint(settings: NetworkSettings): string {
+  if (settings.cluster === 'custom') {
+    // Fall back to the public endpoint of the chain until a valid URL is saved
+    return settings.customUrl && isValidEndpoint(settings.customUrl)
+      ? settings.customUrl.trim()
+      : getOption(settings.customChain || 'mainnet').endpoint!;
+  }
+  return getOption(settings.cluster).endpoint!;
+}
+
+export function getClusterChain(settings: NetworkSettings): ClusterChain {
+  if (settings.cluster === 'custom') {
+    return settings.customChain || 'mainnet';
+  }
+  return settings.cluster;
+}
+
+export function getWalletCluster(settings: NetworkSettings): WalletCluster {
+  const chain = getClusterChain(settings);
+  if (chain === 'mainnet') return 'mainnet-beta';
+  // Wallets have no localnet cluster; devnet keeps them off mainnet for connecting and signing
+  // messages, and SolanaProvider refuses to send transactions there
+  if (chain === 'localnet') return 'devnet';
+  return chain;
+}
+
+export function getClusterLabel(settings: NetworkSettings): string {
+  if (settings.cluster === 'custom') {
+    return `Custom (${getOption(getClusterChain(settings)).name})`;
+  }
+  return getOption(settings.cluster).name;
+}
+
+// With a signal, the connection's requests are cancelled when it aborts
+export function createConnection(settings: NetworkSettings, signal?: AbortSignal): Connection {
+  const headers = settings.cluster === 'custom' ? settings.customHeaders : undefined;
+  return new Connection(getEndpoint(settings), {
+    commitment: 'confirmed',
+    httpHeaders: headers && Object.keys(headers).length > 0 ? headers : undefined,
+    fetchMiddleware: signal ? (info, init, fetch) => fetch(info, { ...init, signal }) : undefined,
+  });
+}
+
+// The selected profile, mirrored here so non-React code (e.g. tool execution) can reach it
+let activeNetwork: NetworkSettings = DEFAULT_NETWORK_SETTINGS;
+let activeConnection: Connection | null = null;
+
+export function setActiveNetwork(settings: NetworkSettings) {
+  activeNetwork = settings;
+  activeConnection = null;
+}
+
+export const getActiveNetwork = (): NetworkSettings => activeNetwork;
+
+export function getActiveConnection(): Connection {
+  if (!activeConnection) {
+    activeConnection = createConnection(activeNetwork);
+  }
+  return activeConnection;
+}
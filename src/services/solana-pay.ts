@@ -0,0 +1,43 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+
+// Solana Pay transfer requests (https://docs.solanapay.com/spec), so credits can be paid for
+// from a wallet on another device or one without Mobile Wallet Adapter. The payment is found
+// on-chain by its reference key, a fresh address the paying wallet adds to the transfer.
+
+export interface TransferRequest {
+  recipient: string;
+  amount: number; // In whole SOL or tokens
+  splToken?: string; // Mint, for token payments
+  reference: string;
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+// Amounts are written out in full; Solana Pay doesn't accept exponent notation
+const formatAmount = (amount: number): string =>
+  amount.toFixed(9).replace(/\.?0+$/, '');
+
+export const createReference = (): string => Keypair.generate().publicKey.toBase58();
+
+export function createTransferRequestURL({ recipient, amount, splToken, reference, label, message, memo }: TransferRequest): string {
+  const params: [string, string | undefined][] = [
+    ['amount', formatAmount(amount)],
+    ['spl-token', splToken],
+    ['reference', reference],
+    ['label', label],
+    ['message', message],
+    ['memo', memo],
+  ];
+  const query = params
+    .filter((param): param is [string, string] => param[1] !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `solana:${recipient}?${query}`;
+}
+
+// Signature of the transaction carrying the reference key, or null if it hasn't landed yet
+export async function findReference(connection: Connection, reference: string): Promise<string | null> {
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(reference), { limit: 1 }, 'confirmed');
+  return signatures[0]?.signature ?? null;
+}
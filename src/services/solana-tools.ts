@@ -1,8 +1,10 @@
 import { Connection, PublicKey, LAMPORTS_PER_SOL, ParsedAccountData } from '@solana/web3.js';
-
-// Solana RPC endpoints
-const MAINNET_RPC = 'https://api.mainnet-beta.solana.com';
-const DEVNET_RPC = 'https://api.devnet.solana.com';
+import { abortable } from '../utils/abort';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { PublicCluster } from '../types';
+import { ClusterChain, createConnection, getActiveConnection, getActiveNetwork, getClusterChain } from './solana-network';
+import { resolveTokenMetadata } from './token-metadata';
+import { SOL_MINT, TokenPrice, getPrice, isStale } from './prices';
 
 // Tool definitions for AI function calling
 export const SOLANA_TOOLS = [
@@ -18,8 +20,8 @@ export const SOLANA_TOOLS = [
         },
         network: {
           type: 'string',
-          enum: ['mainnet', 'devnet'],
-          description: 'The Solana network to query (default: mainnet)',
+          enum: ['mainnet', 'devnet', 'testnet'],
+          description: "The Solana network to query (default: the app's selected cluster)",
         },
       },
       required: ['address'],
@@ -27,7 +29,7 @@ export const SOLANA_TOOLS = [
   },
   {
     name: 'get_token_balances',
-    description: 'Get all SPL token balances for a Solana wallet',
+    description: 'Get all SPL and Token-2022 token balances for a Solana wallet, with token names and symbols',
     parameters: {
       type: 'object',
       properties: {
@@ -37,7 +39,7 @@ export const SOLANA_TOOLS = [
         },
         network: {
           type: 'string',
-          enum: ['mainnet', 'devnet'],
+          enum: ['mainnet', 'devnet', 'testnet'],
           description: 'The Solana network to query',
         },
       },
@@ -56,7 +58,7 @@ export const SOLANA_TOOLS = [
         },
         network: {
           type: 'string',
-          enum: ['mainnet', 'devnet'],
+          enum: ['mainnet', 'devnet', 'testnet'],
           description: 'The Solana network',
         },
       },
@@ -79,7 +81,7 @@ export const SOLANA_TOOLS = [
         },
         network: {
           type: 'string',
-          enum: ['mainnet', 'devnet'],
+          enum: ['mainnet', 'devnet', 'testnet'],
         },
       },
       required: ['address'],
@@ -87,7 +89,7 @@ export const SOLANA_TOOLS = [
   },
   {
     name: 'get_token_info',
-    description: 'Get information about an SPL token by mint address',
+    description: 'Get information about an SPL token by mint address, including its name and symbol',
     parameters: {
       type: 'object',
       properties: {
@@ -97,7 +99,7 @@ export const SOLANA_TOOLS = [
         },
         network: {
           type: 'string',
-          enum: ['mainnet', 'devnet'],
+          enum: ['mainnet', 'devnet', 'testnet'],
         },
       },
       required: ['mint'],
@@ -173,46 +175,88 @@ export const SOLANA_TOOLS = [
   },
 ];
 
+// Short progress labels shown while a tool is running
+export const TOOL_LABELS: Record<string, string> = {
+  get_sol_balance: 'Checking balance',
+  get_token_balances: 'Loading token balances',
+  get_transaction: 'Looking up transaction',
+  get_recent_transactions: 'Fetching recent transactions',
+  get_token_info: 'Reading token info',
+  get_sol_price: 'Checking SOL price',
+  get_token_price: 'Checking token price',
+  lookup_domain: 'Resolving domain',
+  get_stake_accounts: 'Loading stake accounts',
+  get_nfts: 'Fetching NFTs',
+};
+
+export const getToolLabel = (name: string): string => TOOL_LABELS[name] || `Running ${name}`;
+
+// Tells the model how old a cached price is, so it doesn't quote a stale one as live
+const describePrice = (price: TokenPrice) => ({
+  price: price.usd,
+  change24h: price.change24h,
+  timestamp: price.fetchedAt,
+  stale: isStale(price),
+});
+
 // Tool execution functions
 export class SolanaToolExecutor {
-  private getConnection(network: string = 'mainnet'): Connection {
-    const rpc = network === 'devnet' ? DEVNET_RPC : MAINNET_RPC;
-    return new Connection(rpc, 'confirmed');
+  // Use the app's network profile unless the model asks for a different public cluster. With a
+  // signal, the connection is the call's own so its requests stop when the call is cancelled.
+  private getConnection(network?: string, signal?: AbortSignal): Connection {
+    const settings = !network || network === getClusterChain(getActiveNetwork())
+      ? getActiveNetwork()
+      : { cluster: network as PublicCluster };
+    if (!signal && settings === getActiveNetwork()) {
+      return getActiveConnection();
+    }
+    return createConnection(settings, signal);
   }
 
-  async executeTool(name: string, params: Record<string, any>): Promise<string> {
+  // Chain the tool's connection reads from, the same choice getConnection makes
+  private getChain(network?: string): ClusterChain {
+    return (network as PublicCluster | undefined) || getClusterChain(getActiveNetwork());
+  }
+
+  async executeTool(name: string, params: Record<string, any>, signal?: AbortSignal): Promise<string> {
     try {
-      switch (name) {
-        case 'get_sol_balance':
-          return await this.getSolBalance(params.address, params.network);
-        case 'get_token_balances':
-          return await this.getTokenBalances(params.address, params.network);
-        case 'get_transaction':
-          return await this.getTransaction(params.signature, params.network);
-        case 'get_recent_transactions':
-          return await this.getRecentTransactions(params.address, params.limit, params.network);
-        case 'get_token_info':
-          return await this.getTokenInfo(params.mint, params.network);
-        case 'get_sol_price':
-          return await this.getSolPrice();
-        case 'get_token_price':
-          return await this.getTokenPrice(params.mint);
-        case 'lookup_domain':
-          return await this.lookupDomain(params.domain);
-        case 'get_stake_accounts':
-          return await this.getStakeAccounts(params.address);
-        case 'get_nfts':
-          return await this.getNFTs(params.address, params.limit);
-        default:
-          return JSON.stringify({ error: `Unknown tool: ${name}` });
-      }
+      // Stop waiting as soon as the signal fires; the requests it reaches are cancelled too
+      return await abortable(this.runTool(name, params, signal), signal);
     } catch (error: any) {
+      if (signal?.aborted) throw error;
       return JSON.stringify({ error: error.message });
     }
   }
 
-  async getSolBalance(address: string, network?: string): Promise<string> {
-    const connection = this.getConnection(network);
+  private async runTool(name: string, params: Record<string, any>, signal?: AbortSignal): Promise<string> {
+    switch (name) {
+      case 'get_sol_balance':
+        return this.getSolBalance(params.address, params.network, signal);
+      case 'get_token_balances':
+        return this.getTokenBalances(params.address, params.network, signal);
+      case 'get_transaction':
+        return this.getTransaction(params.signature, params.network, signal);
+      case 'get_recent_transactions':
+        return this.getRecentTransactions(params.address, params.limit, params.network, signal);
+      case 'get_token_info':
+        return this.getTokenInfo(params.mint, params.network, signal);
+      case 'get_sol_price':
+        return this.getSolPrice();
+      case 'get_token_price':
+        return this.getTokenPrice(params.mint);
+      case 'lookup_domain':
+        return this.lookupDomain(params.domain, signal);
+      case 'get_stake_accounts':
+        return this.getStakeAccounts(params.address, signal);
+      case 'get_nfts':
+        return this.getNFTs(params.address, params.limit, signal);
+      default:
+        return JSON.stringify({ error: `Unknown tool: ${name}` });
+    }
+  }
+
+  async getSolBalance(address: string, network?: string, signal?: AbortSignal): Promise<string> {
+    const connection = this.getConnection(network, signal);
     const pubkey = new PublicKey(address);
     const balance = await connection.getBalance(pubkey);
     const solBalance = balance / LAMPORTS_PER_SOL;
@@ -221,22 +265,34 @@ export class SolanaToolExecutor {
       address,
       balance: solBalance,
       lamports: balance,
-      network: network || 'mainnet',
+      network: network || getClusterChain(getActiveNetwork()),
     });
   }
 
-  async getTokenBalances(address: string, network?: string): Promise<string> {
-    const connection = this.getConnection(network);
+  async getTokenBalances(address: string, network?: string, signal?: AbortSignal): Promise<string> {
+    const connection = this.getConnection(network, signal);
     const pubkey = new PublicKey(address);
 
-    const tokenAccounts = await connection.getParsedTokenAccountsByOwner(pubkey, {
-      programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
-    });
+    const tokenAccounts = await Promise.all(
+      [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+        connection.getParsedTokenAccountsByOwner(pubkey, { programId })
+      )
+    );
+    const accounts = tokenAccounts.flatMap((result) => result.value).slice(0, 20); // Limit to 20
+    const metadata = await resolveTokenMetadata(
+      connection,
+      this.getChain(network),
+      accounts.map((account) => account.account.data.parsed.info.mint),
+      signal
+    );
 
-    const tokens = tokenAccounts.value.map((account) => {
+    const tokens = accounts.map((account) => {
       const info = account.account.data.parsed.info;
       return {
         mint: info.mint,
+        symbol: metadata[info.mint]?.symbol,
+        name: metadata[info.mint]?.name,
+        logoUri: metadata[info.mint]?.logoUri,
         balance: info.tokenAmount.uiAmountString,
         decimals: info.tokenAmount.decimals,
         rawBalance: info.tokenAmount.amount,
@@ -245,13 +301,13 @@ export class SolanaToolExecutor {
 
     return JSON.stringify({
       address,
-      tokenCount: tokens.length,
-      tokens: tokens.slice(0, 20), // Limit to 20
+      tokenCount: tokenAccounts.reduce((count, result) => count + result.value.length, 0),
+      tokens,
     });
   }
 
-  async getTransaction(signature: string, network?: string): Promise<string> {
-    const connection = this.getConnection(network);
+  async getTransaction(signature: string, network?: string, signal?: AbortSignal): Promise<string> {
+    const connection = this.getConnection(network, signal);
     const tx = await connection.getParsedTransaction(signature, {
       maxSupportedTransactionVersion: 0,
     });
@@ -270,8 +326,8 @@ export class SolanaToolExecutor {
     });
   }
 
-  async getRecentTransactions(address: string, limit: number = 10, network?: string): Promise<string> {
-    const connection = this.getConnection(network);
+  async getRecentTransactions(address: string, limit: number = 10, network?: string, signal?: AbortSignal): Promise<string> {
+    const connection = this.getConnection(network, signal);
     const pubkey = new PublicKey(address);
 
     const signatures = await connection.getSignaturesForAddress(pubkey, {
@@ -293,8 +349,8 @@ export class SolanaToolExecutor {
     });
   }
 
-  async getTokenInfo(mint: string, network?: string): Promise<string> {
-    const connection = this.getConnection(network);
+  async getTokenInfo(mint: string, network?: string, signal?: AbortSignal): Promise<string> {
+    const connection = this.getConnection(network, signal);
     const mintPubkey = new PublicKey(mint);
 
     const accountInfo = await connection.getParsedAccountInfo(mintPubkey);
@@ -304,9 +360,13 @@ export class SolanaToolExecutor {
     }
 
     const data = accountInfo.value.data as ParsedAccountData;
+    const metadata = (await resolveTokenMetadata(connection, this.getChain(network), [mint], signal))[mint];
 
     return JSON.stringify({
       mint,
+      symbol: metadata?.symbol,
+      name: metadata?.name,
+      logoUri: metadata?.logoUri,
       decimals: data.parsed?.info?.decimals,
       supply: data.parsed?.info?.supply,
       freezeAuthority: data.parsed?.info?.freezeAuthority,
@@ -315,45 +375,28 @@ export class SolanaToolExecutor {
   }
 
   async getSolPrice(): Promise<string> {
-    try {
-      const response = await fetch(
-        'https://price.jup.ag/v6/price?ids=So11111111111111111111111111111111111111112'
-      );
-      const data = await response.json();
-      const solData = data.data['So11111111111111111111111111111111111111112'];
-
-      return JSON.stringify({
-        symbol: 'SOL',
-        price: solData?.price || 0,
-        timestamp: Date.now(),
-      });
-    } catch (error) {
+    const price = await getPrice(SOL_MINT);
+    if (!price) {
       return JSON.stringify({ error: 'Failed to fetch SOL price' });
     }
+    return JSON.stringify({ symbol: 'SOL', ...describePrice(price) });
   }
 
   async getTokenPrice(mint: string): Promise<string> {
-    try {
-      const response = await fetch(`https://price.jup.ag/v6/price?ids=${mint}`);
-      const data = await response.json();
-      const tokenData = data.data[mint];
-
-      return JSON.stringify({
-        mint,
-        price: tokenData?.price || 0,
-        timestamp: Date.now(),
-      });
-    } catch (error) {
-      return JSON.stringify({ error: 'Failed to fetch token price' });
+    const price = await getPrice(mint);
+    if (!price) {
+      return JSON.stringify({ error: 'No price found for this token' });
     }
+    return JSON.stringify({ mint, ...describePrice(price) });
   }
 
-  async lookupDomain(domain: string): Promise<string> {
+  async lookupDomain(domain: string, signal?: AbortSignal): Promise<string> {
     // SNS domain resolution using Bonfida API
     try {
       const cleanDomain = domain.replace('.sol', '');
       const response = await fetch(
-        `https://sns-sdk-proxy.bonfida.workers.dev/resolve/${cleanDomain}`
+        `https://sns-sdk-proxy.bonfida.workers.dev/resolve/${cleanDomain}`,
+        { signal }
       );
       const data = await response.json();
 
@@ -369,8 +412,8 @@ export class SolanaToolExecutor {
     }
   }
 
-  async getStakeAccounts(address: string): Promise<string> {
-    const connection = this.getConnection('mainnet');
+  async getStakeAccounts(address: string, signal?: AbortSignal): Promise<string> {
+    const connection = this.getConnection(undefined, signal);
     const pubkey = new PublicKey(address);
 
     const stakeAccounts = await connection.getParsedProgramAccounts(
@@ -408,7 +451,7 @@ export class SolanaToolExecutor {
     });
   }
 
-  async getNFTs(address: string, limit: number = 10): Promise<string> {
+  async getNFTs(address: string, limit: number = 10, signal?: AbortSignal): Promise<string> {
     // Using Helius DAS API - requires HELIUS_API_KEY env variable
     const heliusApiKey = process.env.HELIUS_API_KEY || process.env.EXPO_PUBLIC_HELIUS_API_KEY;
     if (!heliusApiKey) {
@@ -420,6 +463,7 @@ export class SolanaToolExecutor {
         `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`,
         {
           method: 'POST',
+          signal,
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             jsonrpc: '2.0',
@@ -0,0 +1,56 @@
+import { SpendingLimits } from '../types';
+import { formatCost } from './usage';
+
+// Checks spend against the user's caps. Credit caps cover credit-paid requests and USD caps
+// cover requests on the user's own keys.
+
+export type SpendUnit = 'credits' | 'usd';
+
+export interface SpendTotals {
+  daily: number;
+  conversation: number;
+}
+
+export type LimitStatus =
+  | { level: 'ok' }
+  | { level: 'warning' | 'exceeded'; message: string };
+
+const formatAmount = (amount: number, unit: SpendUnit): string =>
+  unit === 'usd' ? formatCost(amount) : `${Math.round(amount).toLocaleString()} credits`;
+
+export const startOfToday = (now = Date.now()): number => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// The most pressing status across the daily and conversation caps for the unit
+export function checkSpendingLimits(limits: SpendingLimits, unit: SpendUnit, spend: SpendTotals): LimitStatus {
+  if (!limits.enabled) return { level: 'ok' };
+
+  const caps = [
+    {
+      cap: unit === 'usd' ? limits.dailyUsd : limits.dailyCredits,
+      spent: spend.daily,
+      describe: (spent: string, cap: string) => `Today's spending is ${spent} of your ${cap} daily limit`,
+    },
+    {
+      cap: unit === 'usd' ? limits.conversationUsd : limits.conversationCredits,
+      spent: spend.conversation,
+      describe: (spent: string, cap: string) => `This conversation has used ${spent} of its ${cap} limit`,
+    },
+  ];
+
+  let warning: LimitStatus = { level: 'ok' };
+  for (const { cap, spent, describe } of caps) {
+    if (!cap || cap <= 0) continue;
+    const summary = describe(formatAmount(spent, unit), formatAmount(cap, unit));
+    if (spent >= cap) {
+      return { level: 'exceeded', message: `${summary}.` };
+    }
+    if (warning.level === 'ok' && spent >= cap * limits.warnAt) {
+      warning = { level: 'warning', message: `${summary} (${Math.round((spent / cap) * 100)}%).` };
+    }
+  }
+  return warning;
+}
@@ -0,0 +1,53 @@
+import { TokenMetadata } from '../types';
+
+// Well-known mainnet tokens, used when a mint has no on-chain metadata and for logos
+// that on-chain metadata doesn't point to
+
+const TOKEN_LIST_ASSETS = 'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet';
+
+export const BUNDLED_TOKENS: Record<string, Omit<TokenMetadata, 'source'>> = {
+  So11111111111111111111111111111111111111112: {
+    symbol: 'SOL',
+    name: 'Wrapped SOL',
+    logoUri: `${TOKEN_LIST_ASSETS}/So11111111111111111111111111111111111111112/logo.png`,
+  },
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    logoUri: `${TOKEN_LIST_ASSETS}/EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v/logo.png`,
+  },
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: {
+    symbol: 'USDT',
+    name: 'USDT',
+  },
+  mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So: {
+    symbol: 'mSOL',
+    name: 'Marinade staked SOL',
+    logoUri: `${TOKEN_LIST_ASSETS}/mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So/logo.png`,
+  },
+  J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn: {
+    symbol: 'JitoSOL',
+    name: 'Jito Staked SOL',
+  },
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: {
+    symbol: 'JUP',
+    name: 'Jupiter',
+  },
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: {
+    symbol: 'Bonk',
+    name: 'Bonk',
+  },
+  EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm: {
+    symbol: 'WIF',
+    name: 'dogwifhat',
+  },
+  HZ1JovNiVvGrGNiiYvEozEVgZ58xaU3RKwX8eACQBCt3: {
+    symbol: 'PYTH',
+    name: 'Pyth Network',
+  },
+  '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R': {
+    symbol: 'RAY',
+    name: 'Raydium',
+    logoUri: `${TOKEN_LIST_ASSETS}/4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R/logo.png`,
+  },
+};
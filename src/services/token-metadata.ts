@@ -0,0 +1,170 @@
+import { Buffer } from 'buffer';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, getTokenMetadata } from '@solana/spl-token';
+import { CachedTokenMetadata, TokenMetadata } from '../types';
+import { TOKEN_METADATA_SCHEMA } from './persisted-state';
+import { BUNDLED_TOKENS } from './token-list';
+import { ClusterChain } from './solana-network';
+import { loadPersisted, savePersisted } from '../utils/persistence';
+import { throwIfAborted } from '../utils/abort';
+
+// Resolves token names, symbols and logos: a Token-2022 mint's own metadata extension first,
+// then its Metaplex metadata account, then the bundled token list on mainnet. Results are cached locally.
+
+const METAPLEX_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+const FOUND_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Mints with no metadata are checked again sooner, in case it gets added
+const MISSING_TTL_MS = 24 * 60 * 60 * 1000;
+const OFF_CHAIN_TIMEOUT_MS = 5000;
+// getMultipleAccountsInfo takes at most this many accounts
+const ACCOUNTS_PER_REQUEST = 100;
+
+// Keyed by chain and mint, since the same address can be a different token on each cluster
+let cache: Record<string, CachedTokenMetadata> | null = null;
+
+const cacheKey = (chain: ClusterChain, mint: string): string => `${chain}:${mint}`;
+
+// The bundled list holds mainnet tokens, so it says nothing about mints on other clusters
+const bundledToken = (chain: ClusterChain, mint: string) =>
+  chain === 'mainnet' ? BUNDLED_TOKENS[mint] : undefined;
+
+const loadCache = async (): Promise<Record<string, CachedTokenMetadata>> => {
+  cache ??= await loadPersisted(TOKEN_METADATA_SCHEMA);
+  return cache;
+};
+
+// Stands in for the symbol of a token no source knows
+export const shortMint = (mint: string): string => `${mint.slice(0, 4)}...${mint.slice(-4)}`;
+
+const isFresh = (entry: CachedTokenMetadata | undefined, now: number): entry is CachedTokenMetadata =>
+  !!entry && now - entry.fetchedAt < (entry.metadata ? FOUND_TTL_MS : MISSING_TTL_MS);
+
+export const getMetaplexMetadataAddress = (mint: PublicKey): PublicKey =>
+  PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), METAPLEX_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    METAPLEX_PROGRAM_ID
+  )[0];
+
+// Name, symbol and URI from a Metaplex metadata account: a key byte, the update authority and
+// mint, then borsh strings padded with null bytes
+export function parseMetaplexMetadata(data: Uint8Array): { name: string; symbol: string; uri: string } | null {
+  const buffer = Buffer.from(data);
+  let offset = 1 + 32 + 32;
+  const readString = () => {
+    const length = buffer.readUInt32LE(offset);
+    offset += 4;
+    const value = buffer.subarray(offset, offset + length).toString('utf8').replace(/\0/g, '').trim();
+    offset += length;
+    return value;
+  };
+
+  try {
+    return { name: readString(), symbol: readString(), uri: readString() };
+  } catch {
+    return null;
+  }
+}
+
+// The image from a metadata URI's off-chain JSON
+async function fetchLogoUri(uri: string, signal?: AbortSignal): Promise<string | undefined> {
+  if (!/^https?:\/\//.test(uri)) return undefined;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), OFF_CHAIN_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  try {
+    const response = await fetch(uri, { signal: controller.signal });
+    const json = await response.json();
+    return typeof json?.image === 'string' ? json.image : undefined;
+  } catch {
+    return undefined;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+async function lookUpMetadata(
+  connection: Connection,
+  chain: ClusterChain,
+  mints: PublicKey[],
+  signal?: AbortSignal
+): Promise<Record<string, TokenMetadata | undefined>> {
+  const results: Record<string, TokenMetadata | undefined> = {};
+
+  for (let i = 0; i < mints.length; i += ACCOUNTS_PER_REQUEST) {
+    throwIfAborted(signal);
+    const batch = mints.slice(i, i + ACCOUNTS_PER_REQUEST);
+    const [mintAccounts, metaplexAccounts] = await Promise.all([
+      connection.getMultipleAccountsInfo(batch),
+      connection.getMultipleAccountsInfo(batch.map(getMetaplexMetadataAddress)),
+    ]);
+
+    await Promise.all(batch.map(async (mint, index) => {
+      const address = mint.toBase58();
+      const bundled = bundledToken(chain, address);
+      let onChain: { name: string; symbol: string; uri: string } | null = null;
+      let source: TokenMetadata['source'] = 'metaplex';
+
+      if (mintAccounts[index]?.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+        onChain = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID).catch(() => null);
+        source = 'token-2022';
+      }
+      const metaplexAccount = metaplexAccounts[index];
+      if (!onChain?.symbol && metaplexAccount) {
+        onChain = parseMetaplexMetadata(metaplexAccount.data);
+        source = 'metaplex';
+      }
+
+      if (onChain?.symbol) {
+        results[address] = {
+          symbol: onChain.symbol,
+          name: onChain.name || onChain.symbol,
+          logoUri: bundled?.logoUri ?? (onChain.uri ? await fetchLogoUri(onChain.uri, signal) : undefined),
+          source,
+        };
+      } else if (bundled) {
+        results[address] = { ...bundled, source: 'token-list' };
+      }
+    }));
+  }
+
+  return results;
+}
+
+// Metadata for each mint on the connection's chain that any source knows, from the cache where
+// it's still fresh. A fired signal stops the lookups and rejects.
+export async function resolveTokenMetadata(
+  connection: Connection,
+  chain: ClusterChain,
+  mints: string[],
+  signal?: AbortSignal
+): Promise<Record<string, TokenMetadata>> {
+  const cached = await loadCache();
+  const now = Date.now();
+  const unique = Array.from(new Set(mints));
+  const stale = unique.filter(mint => !isFresh(cached[cacheKey(chain, mint)], now));
+
+  if (stale.length > 0) {
+    try {
+      const found = await lookUpMetadata(connection, chain, stale.map(mint => new PublicKey(mint)), signal);
+      for (const mint of stale) {
+        cached[cacheKey(chain, mint)] = { metadata: found[mint], fetchedAt: now };
+      }
+      await savePersisted(TOKEN_METADATA_SCHEMA, cached);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Offline or RPC trouble: use what the cache and token list have
+      console.warn('Error resolving token metadata:', error);
+    }
+  }
+
+  const resolved: Record<string, TokenMetadata> = {};
+  for (const mint of unique) {
+    const bundled = bundledToken(chain, mint);
+    const metadata = cached[cacheKey(chain, mint)]?.metadata ?? (bundled && { ...bundled, source: 'token-list' as const });
+    if (metadata) resolved[mint] = metadata;
+  }
+  return resolved;
+}
@@ -0,0 +1,123 @@
+import { Buffer } from 'buffer';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  calculateEpochFee,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeAndTransferHookInstruction,
+  createTransferCheckedWithFeeInstruction,
+  createTransferCheckedWithTransferHookInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getMemoTransfer,
+  getMint,
+  getNonTransferable,
+  getTransferFeeConfig,
+  getTransferHook,
+} from '@solana/spl-token';
+import { parseAmount, toBaseUnits } from '../utils/amounts';
+
+// Builds token transfers for both the classic Token program and Token-2022, handling the
+// Token-2022 extensions that change how a transfer has to be made
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+// Sent when the recipient's account requires a memo and the caller didn't give one
+const DEFAULT_MEMO = 'Sent from Solana AI Chat';
+
+export interface TokenTransferRequest {
+  owner: string;
+  recipient: string; // Wallet address; its associated token account receives the tokens
+  mint: string;
+  amount: number | string; // Whole tokens; text is parsed exactly, as typed
+  memo?: string;
+}
+
+export interface TokenTransfer {
+  instructions: TransactionInstruction[];
+  amount: bigint; // Raw amount debited from the sender
+  fee: bigint; // Raw transfer fee withheld from what the recipient gets
+  decimals: number;
+  programId: PublicKey;
+}
+
+export async function getTokenProgramId(connection: Connection, mint: PublicKey): Promise<PublicKey> {
+  const info = await connection.getAccountInfo(mint);
+  if (info?.owner.equals(TOKEN_PROGRAM_ID) || info?.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    return info.owner;
+  }
+  throw new Error('That address is not a token mint');
+}
+
+export async function buildTokenTransfer(
+  connection: Connection,
+  { owner, recipient, mint, amount, memo }: TokenTransferRequest
+): Promise<TokenTransfer> {
+  const ownerPubkey = new PublicKey(owner);
+  const recipientPubkey = new PublicKey(recipient);
+  const mintPubkey = new PublicKey(mint);
+
+  const programId = await getTokenProgramId(connection, mintPubkey);
+  const mintInfo = await getMint(connection, mintPubkey, 'confirmed', programId);
+  const { decimals } = mintInfo;
+  if (getNonTransferable(mintInfo)) {
+    throw new Error('This token cannot be transferred');
+  }
+
+  const rawAmount = typeof amount === 'string' ? parseAmount(amount, decimals) : toBaseUnits(amount, decimals);
+  if (rawAmount <= 0n) {
+    throw new Error('Invalid amount');
+  }
+
+  const sourceAccount = getAssociatedTokenAddressSync(mintPubkey, ownerPubkey, false, programId);
+  // The recipient may be a program-owned address such as a treasury PDA
+  const destinationAccount = getAssociatedTokenAddressSync(mintPubkey, recipientPubkey, true, programId);
+
+  const source = await getAccount(connection, sourceAccount, 'confirmed', programId).catch(() => null);
+  if (!source || source.amount < rawAmount) {
+    throw new Error('Insufficient token balance');
+  }
+
+  const instructions: TransactionInstruction[] = [];
+  const destination = await getAccount(connection, destinationAccount, 'confirmed', programId).catch(() => null);
+  if (!destination) {
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(ownerPubkey, destinationAccount, recipientPubkey, mintPubkey, programId)
+    );
+  }
+
+  // Memo-required accounts reject transfers not directly preceded by a memo
+  const memoRequired = !!destination && !!getMemoTransfer(destination)?.requireIncomingTransferMemos;
+  if (memo || memoRequired) {
+    instructions.push(new TransactionInstruction({
+      programId: MEMO_PROGRAM_ID,
+      keys: [],
+      data: Buffer.from(memo || DEFAULT_MEMO, 'utf8'),
+    }));
+  }
+
+  // Transfer-fee mints need the fee stated in the instruction, at the current epoch's rate
+  const feeConfig = getTransferFeeConfig(mintInfo);
+  let fee = 0n;
+  if (feeConfig) {
+    const { epoch } = await connection.getEpochInfo();
+    fee = calculateEpochFee(feeConfig, BigInt(epoch), rawAmount);
+  }
+
+  // Transfer hooks need their extra accounts resolved from the hook program
+  const hooked = !!getTransferHook(mintInfo);
+  const args = [sourceAccount, mintPubkey, destinationAccount, ownerPubkey, rawAmount, decimals] as const;
+  if (hooked) {
+    instructions.push(feeConfig
+      ? await createTransferCheckedWithFeeAndTransferHookInstruction(connection, ...args, fee, [], 'confirmed', programId)
+      : await createTransferCheckedWithTransferHookInstruction(connection, ...args, [], 'confirmed', programId));
+  } else {
+    instructions.push(feeConfig
+      ? createTransferCheckedWithFeeInstruction(...args, fee, [], programId)
+      : createTransferCheckedInstruction(...args, [], programId));
+  }
+
+  return { instructions, amount: rawAmount, fee, decimals, programId };
+}
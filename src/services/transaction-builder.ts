@@ -0,0 +1,118 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+// Builds v0 transactions with a compute-unit limit sized by simulation and a priority fee
+// picked from what recent transactions touching the same accounts paid
+
+export type PriorityLevel = 'low' | 'medium' | 'high';
+
+export interface SendOptions {
+  priority?: PriorityLevel;
+  lookupTables?: string[]; // Address lookup tables to compile the message against
+}
+
+export interface BuiltTransaction {
+  transaction: VersionedTransaction;
+  computeUnits: number;
+  microLamportsPerUnit: number;
+  priorityFeeLamports: number;
+  lastValidBlockHeight: number;
+  lookupTables: AddressLookupTableAccount[]; // Needed to resolve the message's account keys
+}
+
+// Percentile of recent fees each level pays
+const PRIORITY_PERCENTILES: Record<PriorityLevel, number> = {
+  low: 25,
+  medium: 50,
+  high: 75,
+};
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+// Used when simulation can't measure the transaction
+const FALLBACK_COMPUTE_UNITS = 200_000;
+// Headroom over the simulated usage, since state can change before the transaction lands
+const COMPUTE_UNIT_MARGIN = 1.1;
+
+// Micro-lamports per compute unit at the level's percentile of recent non-zero fees
+export async function getPriorityFee(connection: Connection, accounts: PublicKey[], level: PriorityLevel): Promise<number> {
+  const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts });
+  const fees = recent.map(f => f.prioritizationFee).filter(fee => fee > 0).sort((a, b) => a - b);
+  if (fees.length === 0) return 0;
+  const index = Math.min(fees.length - 1, Math.floor((fees.length * PRIORITY_PERCENTILES[level]) / 100));
+  return fees[index];
+}
+
+async function loadLookupTables(connection: Connection, addresses: string[]): Promise<AddressLookupTableAccount[]> {
+  const tables = await Promise.all(addresses.map(address => connection.getAddressLookupTable(new PublicKey(address))));
+  return tables.map(table => table.value).filter((table): table is AddressLookupTableAccount => !!table);
+}
+
+const compile = (
+  payer: PublicKey,
+  blockhash: string,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[]
+) => new VersionedTransaction(
+  new TransactionMessage({ payerKey: payer, recentBlockhash: blockhash, instructions }).compileToV0Message(lookupTables)
+);
+
+const computeBudget = (units: number, microLamports: number): TransactionInstruction[] => [
+  ComputeBudgetProgram.setComputeUnitLimit({ units }),
+  ...(microLamports > 0 ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })] : []),
+];
+
+// Compute units the instructions use, measured by simulating them at the maximum limit
+export async function estimateComputeUnits(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<number | null> {
+  const { blockhash } = await connection.getLatestBlockhash();
+  const transaction = compile(payer, blockhash, [...computeBudget(MAX_COMPUTE_UNITS, 0), ...instructions], lookupTables);
+  const { value } = await connection.simulateTransaction(transaction, { sigVerify: false, replaceRecentBlockhash: true });
+  if (value.err || !value.unitsConsumed) return null;
+  return value.unitsConsumed;
+}
+
+export async function buildTransaction(
+  connection: Connection,
+  payer: string,
+  instructions: TransactionInstruction[],
+  { priority = 'medium', lookupTables = [] }: SendOptions = {}
+): Promise<BuiltTransaction> {
+  const payerKey = new PublicKey(payer);
+  const tables = await loadLookupTables(connection, lookupTables);
+  const writable = Array.from(
+    new Map(instructions.flatMap(ix => ix.keys).filter(key => key.isWritable).map(key => [key.pubkey.toBase58(), key.pubkey])).values()
+  );
+
+  // Either lookup can fail on RPCs that don't support it (localnet, some custom providers);
+  // the transaction still goes out, without a priority fee or at the fallback limit
+  const [microLamportsPerUnit, simulatedUnits] = await Promise.all([
+    getPriorityFee(connection, writable, priority).catch(() => 0),
+    estimateComputeUnits(connection, payerKey, instructions, tables).catch(() => null),
+  ]);
+  const computeUnits = simulatedUnits
+    ? Math.min(MAX_COMPUTE_UNITS, Math.ceil(simulatedUnits * COMPUTE_UNIT_MARGIN))
+    : FALLBACK_COMPUTE_UNITS;
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+  const transaction = compile(payerKey, blockhash, [...computeBudget(computeUnits, microLamportsPerUnit), ...instructions], tables);
+
+  return {
+    transaction,
+    computeUnits,
+    microLamportsPerUnit,
+    priorityFeeLamports: Math.ceil((computeUnits * microLamportsPerUnit) / 1_000_000),
+    lastValidBlockHeight,
+    lookupTables: tables,
+  };
+}
@@ -0,0 +1,157 @@
+import { Buffer } from 'buffer';
+import { AccountInfo, Connection, PublicKey, TransactionError } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount, unpackMint } from '@solana/spl-token';
+import { BuiltTransaction } from './transaction-builder';
+
+// Simulates a built transaction against current chain state so its effects can be reviewed
+// before the wallet signs it
+
+export interface BalanceChange {
+  address: string;
+  before: number; // Lamports
+  after: number;
+}
+
+export interface TokenBalanceChange {
+  account: string; // Token account
+  owner: string; // Wallet that owns the token account
+  mint: string;
+  decimals: number;
+  before: bigint; // Raw amounts
+  after: bigint;
+}
+
+export interface TransactionPreview {
+  ok: boolean;
+  error?: string; // Why the transaction would fail
+  fee: number | null; // Lamports, including the priority fee; null when the RPC can't price it
+  computeUnits?: number; // Used by the simulation
+  computeUnitLimit: number;
+  balanceChanges: BalanceChange[]; // Only accounts whose SOL balance changes
+  tokenChanges: TokenBalanceChange[]; // Only token accounts whose balance changes
+  logs: string[];
+}
+
+interface SimulatedAccount {
+  data: string[]; // [base64, encoding]
+  executable: boolean;
+  lamports: number;
+  owner: string;
+  rentEpoch?: number;
+}
+
+const isTokenProgram = (owner: PublicKey) => owner.equals(TOKEN_PROGRAM_ID) || owner.equals(TOKEN_2022_PROGRAM_ID);
+
+const toAccountInfo = (account: SimulatedAccount): AccountInfo<Buffer> => ({
+  data: Buffer.from(account.data[0], 'base64'),
+  executable: account.executable,
+  lamports: account.lamports,
+  owner: new PublicKey(account.owner),
+  rentEpoch: account.rentEpoch,
+});
+
+// Token amount held by the account, or null when it isn't a token account
+function tokenAmount(address: PublicKey, info: AccountInfo<Buffer> | null) {
+  if (!info || !isTokenProgram(info.owner)) return null;
+  try {
+    const account = unpackAccount(address, info, info.owner);
+    return { mint: account.mint, owner: account.owner, amount: account.amount };
+  } catch {
+    return null; // A mint or other account owned by the token program
+  }
+}
+
+// Readable reason for a failed simulation, preferring what the program logged
+export function describeSimulationError(err: TransactionError, logs: string[]): string {
+  if (err === 'InsufficientFundsForFee') return 'Not enough SOL to pay the network fee';
+  if (err === 'AccountNotFound') return 'The sending wallet has no SOL on this network';
+  if (typeof err === 'object' && err && 'InstructionError' in err) {
+    const [index, detail] = (err as { InstructionError: [number, unknown] }).InstructionError;
+    const logged = [...logs].reverse().find(line => /Error:|failed:/.test(line));
+    if (logged) return logged.replace(/^Program log: /, '');
+    return `Instruction ${index + 1} failed: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`;
+  }
+  return typeof err === 'string' ? err : JSON.stringify(err);
+}
+
+export async function previewTransaction(connection: Connection, built: BuiltTransaction): Promise<TransactionPreview> {
+  const { transaction, lookupTables, computeUnits: computeUnitLimit } = built;
+  const message = transaction.message;
+
+  // Only writable accounts can change
+  const keys = message.getAccountKeys({ addressLookupTableAccounts: lookupTables });
+  const writable: PublicKey[] = [];
+  for (let i = 0; i < keys.length; i++) {
+    if (message.isAccountWritable(i)) writable.push(keys.get(i)!);
+  }
+  const addresses = writable.map(key => key.toBase58());
+
+  const [before, simulation, fee] = await Promise.all([
+    connection.getMultipleAccountsInfo(writable),
+    connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: { encoding: 'base64', addresses },
+    }),
+    connection.getFeeForMessage(message).then(result => result.value).catch(() => null),
+  ]);
+  const { err, logs, unitsConsumed, accounts } = simulation.value;
+
+  const preview: TransactionPreview = {
+    ok: !err,
+    fee,
+    computeUnits: unitsConsumed,
+    computeUnitLimit,
+    balanceChanges: [],
+    tokenChanges: [],
+    logs: logs ?? [],
+  };
+  if (err) {
+    preview.error = describeSimulationError(err, preview.logs);
+    return preview;
+  }
+
+  const pendingTokens: Omit<TokenBalanceChange, 'decimals'>[] = [];
+  writable.forEach((address, i) => {
+    const pre = before[i];
+    const simulated = accounts?.[i];
+    const post = simulated ? toAccountInfo(simulated as SimulatedAccount) : null;
+
+    const lamportsBefore = pre?.lamports ?? 0;
+    const lamportsAfter = post?.lamports ?? 0;
+    if (lamportsBefore !== lamportsAfter) {
+      preview.balanceChanges.push({ address: addresses[i], before: lamportsBefore, after: lamportsAfter });
+    }
+
+    const tokenBefore = tokenAmount(address, pre);
+    const tokenAfter = tokenAmount(address, post);
+    const token = tokenAfter ?? tokenBefore;
+    const amountBefore = tokenBefore?.amount ?? 0n;
+    const amountAfter = tokenAfter?.amount ?? 0n;
+    if (token && amountBefore !== amountAfter) {
+      pendingTokens.push({
+        account: addresses[i],
+        owner: token.owner.toBase58(),
+        mint: token.mint.toBase58(),
+        before: amountBefore,
+        after: amountAfter,
+      });
+    }
+  });
+
+  // Decimals come from the mints, which the transaction may not touch
+  if (pendingTokens.length > 0) {
+    const mints = Array.from(new Set(pendingTokens.map(change => change.mint)));
+    const mintInfos = await connection.getMultipleAccountsInfo(mints.map(mint => new PublicKey(mint)));
+    const decimals = new Map<string, number>();
+    mints.forEach((mint, i) => {
+      const info = mintInfos[i];
+      if (info && isTokenProgram(info.owner)) {
+        decimals.set(mint, unpackMint(new PublicKey(mint), info, info.owner).decimals);
+      }
+    });
+    preview.tokenChanges = pendingTokens.map(change => ({ ...change, decimals: decimals.get(change.mint) ?? 0 }));
+  }
+
+  return preview;
+}
@@ -0,0 +1,57 @@
+import { Message, ModelPricing, TokenUsage } from '../types';
+
+// Token usage as reported by each provider's API, normalized to { input, output }
+
+export const fromClaudeUsage = (usage: any): TokenUsage | undefined =>
+  usage ? { input: usage.input_tokens || 0, output: usage.output_tokens || 0 } : undefined;
+
+// OpenAI and OpenAI-compatible APIs (Doubao)
+export const fromChatCompletionUsage = (usage: any): TokenUsage | undefined =>
+  usage ? { input: usage.prompt_tokens || 0, output: usage.completion_tokens || 0 } : undefined;
+
+export const fromGeminiUsage = (usageMetadata: any): TokenUsage | undefined =>
+  usageMetadata
+    ? { input: usageMetadata.promptTokenCount || 0, output: usageMetadata.candidatesTokenCount || 0 }
+    : undefined;
+
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return { input: total.input + usage.input, output: total.output + usage.output };
+}
+
+// USD cost of the usage at the model's per-million-token pricing
+export function calculateCost(usage: TokenUsage | undefined, pricing: ModelPricing | undefined): number | undefined {
+  if (!usage || !pricing) return undefined;
+  return (usage.input * pricing.input + usage.output * pricing.output) / 1_000_000;
+}
+
+export interface UsageTotals {
+  tokens: TokenUsage;
+  cost: number;
+  messages: number; // Replies that reported usage
+}
+
+export function sumMessageUsage(messages: Message[]): UsageTotals {
+  return messages.reduce<UsageTotals>(
+    (totals, message) => {
+      if (!message.tokens) return totals;
+      return {
+        tokens: addUsage(totals.tokens, message.tokens)!,
+        cost: totals.cost + (message.cost || 0),
+        messages: totals.messages + 1,
+      };
+    },
+    { tokens: { input: 0, output: 0 }, cost: 0, messages: 0 }
+  );
+}
+
+export const formatTokens = (count: number): string =>
+  count >= 1000 ? `${(count / 1000).toFixed(count >= 10000 ? 0 : 1)}k` : count.toString();
+
+// Sub-cent costs need more precision to be meaningful
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+};
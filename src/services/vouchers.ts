@@ -0,0 +1,52 @@
+import { Buffer } from 'buffer';
+import { PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { Voucher, VoucherPayload } from '../types';
+
+// Vouchers gift credits without a payment. A code is the base64url JSON of the signed
+// voucher; relay/create-voucher.mjs issues them.
+
+// Must match voucherMessage in relay/server.mjs and relay/create-voucher.mjs
+export const voucherMessage = ({ version, id, credits, expiresAt, wallet }: VoucherPayload): string =>
+  JSON.stringify({ version, id, credits, expiresAt, wallet: wallet ?? null });
+
+export function decodeVoucher(code: string): Voucher {
+  try {
+    const voucher = JSON.parse(Buffer.from(code.trim(), 'base64').toString('utf8'));
+    const { payload } = voucher;
+    if (
+      typeof voucher.signature === 'string' &&
+      payload?.version === 1 &&
+      typeof payload.id === 'string' &&
+      Number.isInteger(payload.credits) && payload.credits > 0 &&
+      typeof payload.expiresAt === 'number'
+    ) {
+      return voucher;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('That voucher code is not valid');
+}
+
+export function isVoucherSigned(voucher: Voucher, issuer: string): boolean {
+  try {
+    return ed25519.verify(
+      Buffer.from(voucher.signature, 'base64'),
+      Buffer.from(voucherMessage(voucher.payload)),
+      new PublicKey(issuer).toBytes()
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Returns why the voucher can't be redeemed now by the wallet, or null if it can
+export function checkVoucher(voucher: Voucher, issuer: string, wallet: string | null, now = Date.now()): string | null {
+  if (!isVoucherSigned(voucher, issuer)) return 'That voucher code is not valid';
+  if (voucher.payload.expiresAt < now) return 'This voucher has expired';
+  if (voucher.payload.wallet && voucher.payload.wallet !== wallet) {
+    return wallet ? 'This voucher is for a different wallet' : 'Connect the wallet this voucher was issued to';
+  }
+  return null;
+}
@@ -14,23 +14,37 @@ export interface AIModel {
   id: string;
   name: string;
   contextWindow: number;
-  pricing?: {
-    input: number;
-    output: number;
-  };
+  pricing?: ModelPricing;
+}
+
+export interface ModelPricing {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
 }
 
+// Structured pieces of an assistant reply, in the order they happened
+export type MessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; toolCallId: string; name: string; content: string; isError?: boolean };
+
 export interface Message {
   id: string;
   role: 'user' | 'assistant' | 'system';
-  content: string;
+  content: string; // Plain text of the reply, used for previews, search and copy
+  parts?: MessagePart[];
   provider?: AIProvider;
   model?: string;
   timestamp: number;
-  tokens?: {
-    input: number;
-    output: number;
-  };
+  tokens?: TokenUsage; // Summed across every model request behind this reply
+  cost?: number; // USD, from the model's pricing when the reply was generated
+  incomplete?: boolean; // Generation was stopped before the reply finished
+  paidWithCredits?: boolean; // Charged in credits through the relay rather than to the user's key
 }
 
 export interface Conversation {
@@ -61,6 +75,19 @@ export interface TokenBalance {
   logoUri?: string;
 }
 
+export interface TokenMetadata {
+  symbol: string;
+  name: string;
+  logoUri?: string;
+  source: 'token-2022' | 'metaplex' | 'token-list';
+}
+
+// A cached lookup; metadata is absent when no source knew the mint
+export interface CachedTokenMetadata {
+  metadata?: TokenMetadata;
+  fetchedAt: number;
+}
+
 export interface Transaction {
   signature: string;
   type: 'send' | 'receive' | 'swap' | 'other';
@@ -70,6 +97,17 @@ export interface Transaction {
   status: 'confirmed' | 'pending' | 'failed';
 }
 
+// Network
+export type PublicCluster = 'mainnet' | 'devnet' | 'testnet';
+export type SolanaCluster = PublicCluster | 'localnet' | 'custom';
+
+export interface NetworkSettings {
+  cluster: SolanaCluster;
+  customUrl?: string;
+  customHeaders?: Record<string, string>; // e.g. auth headers for private RPC providers
+  customChain?: PublicCluster; // Which chain the custom endpoint serves
+}
+
 // Settings
 export interface AppSettings {
   apiKeys: {
@@ -83,6 +121,18 @@ export interface AppSettings {
   hapticFeedback: boolean;
   streamResponses: boolean;
   useTools: boolean; // Enable Solana blockchain tools (MCP)
+  spendingLimits: SpendingLimits;
+}
+
+// Caps on what chats can spend. Credit caps apply to credit-paid requests; USD caps to
+// requests on the user's own keys, estimated from model pricing. Unset caps don't apply.
+export interface SpendingLimits {
+  enabled: boolean;
+  dailyCredits?: number;
+  conversationCredits?: number;
+  dailyUsd?: number;
+  conversationUsd?: number;
+  warnAt: number; // Fraction of a cap that triggers a warning
 }
 
 // Chat Context for AI
@@ -113,9 +163,41 @@ export interface CreditBalance {
   lastPurchase?: number;
 }
 
+export type PurchaseStatus = 'pending' | 'confirmed' | 'failed';
+
+// What the credits relay signs when it grants credits for an on-chain payment
+export interface CreditReceiptPayload {
+  version: 1;
+  signature: string; // On-chain payment signature
+  wallet: string;
+  token: PaymentToken;
+  amount: number;
+  credits: number;
+  issuedAt: number;
+}
+
+// Gifted credits, signed by the treasury so the app can check them offline
+export interface VoucherPayload {
+  version: 1;
+  id: string; // Unique per voucher; each can be redeemed once
+  credits: number;
+  expiresAt: number;
+  wallet?: string; // Only this wallet can redeem it, when set
+}
+
+export interface Voucher {
+  payload: VoucherPayload;
+  signature: string; // Base64 ed25519 signature by the voucher issuer
+}
+
+export interface CreditReceipt {
+  payload: CreditReceiptPayload;
+  signature: string; // Base64 ed25519 signature by the relay's receipt key
+}
+
 export interface CreditTransaction {
   id: string;
-  type: 'purchase' | 'usage';
+  type: 'purchase' | 'usage' | 'refund' | 'grant';
   amount: number;
   credits: number;
   token?: PaymentToken;
@@ -123,4 +205,13 @@ export interface CreditTransaction {
   timestamp: number;
   provider?: AIProvider;
   model?: string;
+  tokens?: TokenUsage; // Usage: tokens the request actually consumed
+  toolRounds?: number; // Usage: model turns that called tools
+  conversationId?: string; // Usage: conversation the request replied in
+  status?: PurchaseStatus; // Purchase: credits are only granted once the payment is confirmed
+  sender?: string; // Purchase: wallet that paid, or is credited for a Solana Pay payment. Grant: wallet that redeemed
+  reference?: string; // Purchase: Solana Pay reference key; the payment may come from any wallet
+  failureReason?: string;
+  receipt?: CreditReceipt; // Purchase: proof the relay granted these credits
+  voucher?: Voucher; // Grant: the redeemed voucher
 }
@@ -0,0 +1,48 @@
+import { formatBaseUnits, parseAmount, toBaseUnits } from '../amounts';
+
+describe('toBaseUnits', () => {
+  it('converts without floating point drift', () => {
+    expect(toBaseUnits(0.1, 9)).toBe(100_000_000n);
+    expect(toBaseUnits(1.005, 6)).toBe(1_005_000n);
+    expect(toBaseUnits(250, 0)).toBe(250n);
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads typed amounts exactly', () => {
+    expect(parseAmount('1.5', 9)).toBe(1_500_000_000n);
+    expect(parseAmount(' 0.000000001 ', 9)).toBe(1n);
+    expect(parseAmount('.25', 2)).toBe(25n);
+    expect(parseAmount('3.', 2)).toBe(300n);
+    expect(parseAmount('42', 0)).toBe(42n);
+  });
+
+  it('keeps amounts too large for a float', () => {
+    expect(parseAmount('123456789012345.123456789', 9)).toBe(123456789012345123456789n);
+  });
+
+  it('rejects text that isn\'t a plain decimal', () => {
+    for (const text of ['', '.', 'abc', '-1', '1e3', '1,5', '1.2.3']) {
+      expect(() => parseAmount(text, 6)).toThrow('Invalid amount');
+    }
+  });
+
+  it('rejects more decimal places than the token has', () => {
+    expect(() => parseAmount('0.1234567', 6)).toThrow('At most 6 decimal places');
+    expect(() => parseAmount('1.5', 0)).toThrow('This token has no decimal places');
+  });
+});
+
+describe('formatBaseUnits', () => {
+  it('writes raw amounts as decimals without trailing zeros', () => {
+    expect(formatBaseUnits(1_500_000_000n, 9)).toBe('1.5');
+    expect(formatBaseUnits(1n, 9)).toBe('0.000000001');
+    expect(formatBaseUnits(2_000_000n, 6)).toBe('2');
+    expect(formatBaseUnits(0n, 6)).toBe('0');
+    expect(formatBaseUnits(42n, 0)).toBe('42');
+  });
+
+  it('round-trips with parseAmount', () => {
+    expect(formatBaseUnits(parseAmount('12.0340', 6), 6)).toBe('12.034');
+  });
+});
@@ -0,0 +1,143 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  KeyValueStore,
+  PersistedSchema,
+  checkFields,
+  getQuarantinedRecords,
+  isNumber,
+  isString,
+  loadPersisted,
+  migrate,
+  optional,
+  readPersisted,
+  savePersisted,
+} from '../persistence';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const memoryStore = (values: Record<string, string> = {}): KeyValueStore & { values: Record<string, string> } => ({
+  values,
+  getItem: async (key) => values[key] ?? null,
+  setItem: async (key, value) => {
+    values[key] = value;
+    return true;
+  },
+});
+
+interface Profile {
+  name: string;
+  age: number;
+  nickname?: string;
+}
+
+const profileSchema = (store: KeyValueStore, overrides: Partial<PersistedSchema<Profile>> = {}): PersistedSchema<Profile> => ({
+  key: 'profile',
+  version: 2,
+  migrations: {
+    1: (data) => ({ age: 0, ...data }),
+    2: ({ fullName, ...data }) => ({ ...data, name: fullName ?? data.name }),
+  },
+  validate: (value) => checkFields(value, { name: isString, age: isNumber, nickname: optional(isString) }),
+  fallback: () => ({ name: 'anonymous', age: 0 }),
+  store,
+  ...overrides,
+});
+
+const listSchema = (store: KeyValueStore): PersistedSchema<number[]> => ({
+  key: 'numbers',
+  version: 1,
+  validate: (value) => (Array.isArray(value) ? null : 'expected a list'),
+  validateItem: (value) => (isNumber(value) ? null : 'expected a number'),
+  fallback: () => [],
+  store,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('migrate', () => {
+  it('runs every step after the stored version, in order', () => {
+    const schema = profileSchema(memoryStore());
+    expect(migrate(schema, { fullName: 'Ada' }, 0)).toEqual({ name: 'Ada', age: 0 });
+    expect(migrate(schema, { fullName: 'Ada', age: 36 }, 1)).toEqual({ name: 'Ada', age: 36 });
+  });
+
+  it('refuses data from a newer version', () => {
+    expect(() => migrate(profileSchema(memoryStore()), {}, 3)).toThrow(/newer than supported/);
+  });
+});
+
+describe('readPersisted', () => {
+  it('falls back when nothing is stored', async () => {
+    expect(await readPersisted(profileSchema(memoryStore()))).toEqual({ data: { name: 'anonymous', age: 0 }, preserved: true });
+  });
+
+  it('treats values from before versioning as version 0', async () => {
+    const store = memoryStore({ profile: JSON.stringify({ fullName: 'Ada' }) });
+    expect(await loadPersisted(profileSchema(store))).toEqual({ name: 'Ada', age: 0 });
+  });
+
+  it('round-trips what savePersisted writes', async () => {
+    const store = memoryStore();
+    const schema = profileSchema(store);
+    await savePersisted(schema, { name: 'Grace', age: 85, nickname: 'Amazing' });
+
+    expect(JSON.parse(store.values.profile)).toMatchObject({ version: 2 });
+    expect(await loadPersisted(schema)).toEqual({ name: 'Grace', age: 85, nickname: 'Amazing' });
+  });
+
+  it('rejects when the store fails to write', async () => {
+    const store: KeyValueStore = { getItem: async () => null, setItem: async () => false };
+
+    await expect(savePersisted(profileSchema(store), { name: 'Grace', age: 85 })).rejects.toThrow('Could not save profile');
+  });
+
+  it('quarantines a value that fails to parse', async () => {
+    const { data, preserved } = await readPersisted(profileSchema(memoryStore({ profile: '{not json' })));
+
+    expect(data).toEqual({ name: 'anonymous', age: 0 });
+    expect(preserved).toBe(true);
+    expect(await getQuarantinedRecords()).toEqual([expect.objectContaining({ key: 'profile', raw: '{not json' })]);
+  });
+
+  it('quarantines a value that fails validation', async () => {
+    const raw = JSON.stringify({ version: 2, data: { name: 'Ada', age: 'old' } });
+    expect(await loadPersisted(profileSchema(memoryStore({ profile: raw })))).toEqual({ name: 'anonymous', age: 0 });
+    expect(await getQuarantinedRecords()).toEqual([expect.objectContaining({ raw, reason: 'invalid field "age"' })]);
+  });
+
+  it('quarantines a value stored by a newer version', async () => {
+    const raw = JSON.stringify({ version: 3, data: { name: 'Ada', age: 36 } });
+    expect(await loadPersisted(profileSchema(memoryStore({ profile: raw })))).toEqual({ name: 'anonymous', age: 0 });
+    expect(await getQuarantinedRecords()).toHaveLength(1);
+  });
+
+  it('drops and quarantines only the invalid items of a list', async () => {
+    const store = memoryStore({ numbers: JSON.stringify({ version: 1, data: [1, 'two', 3] }) });
+    expect(await loadPersisted(listSchema(store))).toEqual([1, 3]);
+    expect(await getQuarantinedRecords()).toEqual([expect.objectContaining({ raw: '"two"', reason: 'expected a number' })]);
+  });
+
+  it("doesn't copy secrets into quarantine", async () => {
+    const store = memoryStore({ profile: '{not json' });
+    const { data, preserved } = await readPersisted(profileSchema(store, { secret: true }));
+
+    expect(data).toEqual({ name: 'anonymous', age: 0 });
+    expect(preserved).toBe(true);
+    expect(await getQuarantinedRecords()).toEqual([]);
+  });
+
+  it("reports when an unreadable value couldn't be quarantined", async () => {
+    jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('storage full'));
+    const { preserved } = await readPersisted(listSchema(memoryStore({ numbers: JSON.stringify([1, 'two']) })));
+    expect(preserved).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+// Helpers for cancelling in-flight work with an AbortSignal
+
+export const createAbortError = (): Error => {
+  const error = new Error('Request cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+// Reject as soon as the signal fires, even if the underlying work can't be cancelled
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort);
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,29 @@
+// Conversions between decimal UI amounts and integer on-chain amounts
+
+// Raw integer amount from a decimal amount, without floating point drift
+export function toBaseUnits(amount: number, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+// Raw integer amount from typed text, exactly as entered. Throws on text that isn't a plain
+// decimal or has more decimal places than the token supports.
+export function parseAmount(text: string, decimals: number): bigint {
+  const match = text.trim().match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error('Invalid amount');
+  }
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(decimals === 0 ? 'This token has no decimal places' : `At most ${decimals} decimal places`);
+  }
+  return BigInt((whole || '0') + fraction.padEnd(decimals, '0'));
+}
+
+// Decimal text for a raw integer amount, without trailing zeros
+export function formatBaseUnits(amount: bigint, decimals: number): string {
+  const digits = amount.toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
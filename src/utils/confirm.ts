@@ -0,0 +1,21 @@
+import { Alert, Platform } from 'react-native';
+
+// Ask a yes/no question and wait for the answer. Alert buttons don't work on web,
+// so it falls back to the browser's confirm dialog there.
+export function confirmAsync(title: string, message: string, confirmText = 'Continue'): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.confirm(`${title}\n\n${message}`));
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: confirmText, style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
@@ -0,0 +1,177 @@
+import { localStore } from './storage';
+
+// Versioned persistence: values are stored as { version, data } envelopes,
+// upgraded through registered migrations and validated before use.
+// Anything that can't be read is quarantined rather than crashing or being overwritten silently.
+
+export interface KeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<boolean>; // Whether it was saved
+}
+
+// Returns a description of what's wrong, or null if the value is valid
+export type Validator = (value: unknown) => string | null;
+
+export interface PersistedSchema<T> {
+  key: string;
+  version: number;
+  // migrations[n] upgrades data stored at version n - 1 to version n.
+  // Values written before versioning existed are treated as version 0.
+  migrations?: Record<number, (data: any) => any>;
+  validate: Validator;
+  // For lists: invalid items are quarantined and dropped instead of failing the whole value
+  validateItem?: Validator;
+  fallback: () => T;
+  store?: KeyValueStore;
+  // Holds secrets: unreadable values are dropped rather than copied out of secure storage to quarantine
+  secret?: boolean;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+export interface PersistedRead<T> {
+  data: T;
+  // False when something unreadable couldn't be quarantined, so the stored value must be kept
+  preserved: boolean;
+}
+
+export interface QuarantinedRecord {
+  key: string;
+  raw: string;
+  reason: string;
+  timestamp: number;
+}
+
+const QUARANTINE_KEY = 'quarantine';
+const MAX_QUARANTINED = 20;
+
+const isEnvelope = (value: any): value is Envelope =>
+  !!value && typeof value === 'object' && typeof value.version === 'number' && 'data' in value;
+
+// Keep unreadable data around so it can be inspected or recovered later. Resolves false if the
+// copy couldn't be saved, in which case callers shouldn't delete the original.
+export async function quarantine(key: string, raw: string, reason: string): Promise<boolean> {
+  console.warn(`Quarantined unreadable data for ${key}: ${reason}`);
+  try {
+    const records = await getQuarantinedRecords();
+    const updated = [{ key, raw, reason, timestamp: Date.now() }, ...records].slice(0, MAX_QUARANTINED);
+    return await localStore.setItem(QUARANTINE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error quarantining data:', error);
+    return false;
+  }
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  const saved = await localStore.getItem(QUARANTINE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Bring data from its stored version up to the schema version
+export function migrate<T>(schema: PersistedSchema<T>, data: unknown, fromVersion: number): unknown {
+  if (fromVersion > schema.version) {
+    throw new Error(`stored version ${fromVersion} is newer than supported version ${schema.version}`);
+  }
+
+  let migrated = data;
+  for (let version = fromVersion + 1; version <= schema.version; version++) {
+    const step = schema.migrations?.[version];
+    if (step) {
+      migrated = step(migrated);
+    }
+  }
+  return migrated;
+}
+
+// Quarantine what can't be used, unless it holds secrets
+const setAside = async (schema: PersistedSchema<unknown>, raw: string, reason: string): Promise<boolean> => {
+  if (!schema.secret) return quarantine(schema.key, raw, reason);
+  console.warn(`Dropped unreadable data for ${schema.key}: ${reason}`);
+  return true;
+};
+
+// Load a value along with whether everything left out of it was quarantined
+export async function readPersisted<T>(schema: PersistedSchema<T>): Promise<PersistedRead<T>> {
+  const store = schema.store || localStore;
+  const raw = await store.getItem(schema.key);
+  if (raw === null) {
+    return { data: schema.fallback(), preserved: true };
+  }
+
+  let data: unknown;
+  try {
+    const parsed = JSON.parse(raw);
+    data = isEnvelope(parsed)
+      ? migrate(schema, parsed.data, parsed.version)
+      : migrate(schema, parsed, 0);
+  } catch (error: any) {
+    const preserved = await setAside(schema, raw, error.message || 'failed to parse');
+    return { data: schema.fallback(), preserved };
+  }
+
+  const problem = schema.validate(data);
+  if (problem) {
+    const preserved = await setAside(schema, raw, problem);
+    return { data: schema.fallback(), preserved };
+  }
+
+  let preserved = true;
+  if (schema.validateItem && Array.isArray(data)) {
+    const valid: unknown[] = [];
+    for (const item of data) {
+      const itemProblem = schema.validateItem(item);
+      if (itemProblem) {
+        preserved = (await setAside(schema, JSON.stringify(item), itemProblem)) && preserved;
+      } else {
+        valid.push(item);
+      }
+    }
+    data = valid;
+  }
+
+  return { data: data as T, preserved };
+}
+
+export async function loadPersisted<T>(schema: PersistedSchema<T>): Promise<T> {
+  return (await readPersisted(schema)).data;
+}
+
+// Rejects when the store couldn't write the value
+export async function savePersisted<T>(schema: PersistedSchema<T>, data: T): Promise<void> {
+  const store = schema.store || localStore;
+  const envelope: Envelope = { version: schema.version, data };
+  if (!(await store.setItem(schema.key, JSON.stringify(envelope)))) {
+    throw new Error(`Could not save ${schema.key}`);
+  }
+}
+
+// Small building blocks for validators
+
+export const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Check each field with its predicate and report the first one that fails
+export function checkFields(value: unknown, fields: Record<string, (field: any) => boolean>): string | null {
+  if (!isRecord(value)) return 'expected an object';
+  for (const [name, check] of Object.entries(fields)) {
+    if (!check(value[name])) {
+      return `invalid field "${name}"`;
+    }
+  }
+  return null;
+}
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+export const optional = (check: (value: any) => boolean) => (value: unknown) => value === undefined || value === null || check(value);
+export const oneOf = (...options: readonly unknown[]) => (value: unknown) => options.includes(value);
@@ -0,0 +1,83 @@
+import { fetch } from 'expo/fetch';
+import { throwIfAborted } from './abort';
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+export interface SSERequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+// Parse a single SSE block ("event: x\ndata: y") into an event
+const parseEvent = (block: string): ServerSentEvent | null => {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator >= 0 ? line.slice(0, separator) : line;
+    const value = separator >= 0 ? line.slice(separator + 1).replace(/^ /, '') : '';
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+};
+
+// POST a request and invoke onEvent for every server-sent event in the response.
+// Uses expo/fetch because React Native's built-in fetch can't read the body incrementally.
+export async function streamSSE(
+  url: string,
+  init: SSERequestInit,
+  onEvent: (event: ServerSentEvent) => void,
+  errorMessage: string
+): Promise<void> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error?.message || errorMessage);
+  }
+
+  if (!response.body) {
+    throw new Error('Streaming is not supported on this platform');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    throwIfAborted(init.signal);
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+      const event = parseEvent(block);
+      if (event) onEvent(event);
+
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  // Flush a trailing event that wasn't followed by a blank line
+  const event = parseEvent(buffer + decoder.decode());
+  if (event) onEvent(event);
+}
@@ -1,4 +1,5 @@
 import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Lazy load SecureStore only on native platforms
 let SecureStore: typeof import('expo-secure-store') | null = null;
@@ -7,7 +8,8 @@ if (Platform.OS !== 'web') {
   SecureStore = require('expo-secure-store');
 }
 
-// Cross-platform storage that uses SecureStore on native and localStorage on web
+// Cross-platform storage for secrets (API keys, wallet auth token):
+// SecureStore on native and localStorage on web
 export const storage = {
   async getItem(key: string): Promise<string | null> {
     try {
@@ -21,15 +23,18 @@ export const storage = {
     }
   },
 
-  async setItem(key: string, value: string): Promise<void> {
+  // Resolves whether the value was saved
+  async setItem(key: string, value: string): Promise<boolean> {
     try {
       if (Platform.OS === 'web') {
         localStorage.setItem(key, value);
-        return;
+        return true;
       }
       await SecureStore!.setItemAsync(key, value);
+      return true;
     } catch (error) {
       console.warn(`Storage setItem error for ${key}:`, error);
+      return false;
     }
   },
 
@@ -45,3 +50,46 @@ export const storage = {
     }
   },
 };
+
+// Non-secret app data (settings, credits ledger) that can outgrow SecureStore's size limit.
+// AsyncStorage is backed by localStorage on web.
+export const localStore = {
+  async getItem(key: string): Promise<string | null> {
+    try {
+      const value = await AsyncStorage.getItem(key);
+      if (value !== null || Platform.OS === 'web') {
+        return value;
+      }
+
+      // Older builds kept everything in SecureStore; move the value over on first read
+      const legacy = await SecureStore!.getItemAsync(key);
+      if (legacy !== null) {
+        await AsyncStorage.setItem(key, legacy);
+        await SecureStore!.deleteItemAsync(key);
+      }
+      return legacy;
+    } catch (error) {
+      console.warn(`Local storage getItem error for ${key}:`, error);
+      return null;
+    }
+  },
+
+  // Resolves whether the value was saved
+  async setItem(key: string, value: string): Promise<boolean> {
+    try {
+      await AsyncStorage.setItem(key, value);
+      return true;
+    } catch (error) {
+      console.warn(`Local storage setItem error for ${key}:`, error);
+      return false;
+    }
+  },
+
+  async deleteItem(key: string): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(key);
+    } catch (error) {
+      console.warn(`Local storage deleteItem error for ${key}:`, error);
+    }
+  },
+};